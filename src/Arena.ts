@@ -4,53 +4,234 @@ export interface ArenaBounds {
   size: number;
 }
 
+export type ArenaShape = 'square' | 'circle' | 'octagon';
+
+/**
+ * Static obstacle in arena-relative units: 0..1 across the arena's
+ * bounding square, so a layout scales with the arena.
+ */
+export type ObstacleSpec =
+  | { kind: 'circle'; x: number; y: number; r: number }
+  | { kind: 'rect'; x: number; y: number; w: number; h: number };
+
+/** The same obstacle in world coordinates. */
+export type Obstacle =
+  | { kind: 'circle'; x: number; y: number; r: number }
+  | { kind: 'rect'; x: number; y: number; w: number; h: number };
+
+export interface ArenaLayout {
+  shape: ArenaShape;
+  obstacles: ObstacleSpec[];
+}
+
+export type ArenaLayoutName = 'square' | 'circle' | 'octagon' | 'pillars' | 'walls';
+
+export const ARENA_LAYOUT_NAMES: readonly ArenaLayoutName[] = ['square', 'circle', 'octagon', 'pillars', 'walls'];
+
+export const ARENA_LAYOUTS: Record<ArenaLayoutName, ArenaLayout> = {
+  square:  { shape: 'square',  obstacles: [] },
+  circle:  { shape: 'circle',  obstacles: [] },
+  octagon: { shape: 'octagon', obstacles: [] },
+  // Four round pillars around the centre
+  pillars: {
+    shape: 'square',
+    obstacles: [
+      { kind: 'circle', x: 0.3, y: 0.3, r: 0.05 },
+      { kind: 'circle', x: 0.7, y: 0.3, r: 0.05 },
+      { kind: 'circle', x: 0.3, y: 0.7, r: 0.05 },
+      { kind: 'circle', x: 0.7, y: 0.7, r: 0.05 },
+    ],
+  },
+  // Two short walls in an octagon, leaving lanes on every side
+  walls: {
+    shape: 'octagon',
+    obstacles: [
+      { kind: 'rect', x: 0.22, y: 0.47, w: 0.2, h: 0.06 },
+      { kind: 'rect', x: 0.58, y: 0.47, w: 0.2, h: 0.06 },
+    ],
+  },
+};
+
+/** Outward normals of the octagon's edges, starting at +x. */
+const OCTAGON_NORMALS = Array.from({ length: 8 }, (_, k) => ({
+  x: Math.cos(k * Math.PI / 4),
+  y: Math.sin(k * Math.PI / 4),
+}));
+
+interface Body {
+  px: number;
+  py: number;
+  vx: number;
+  vy: number;
+}
+
+/** Push a circle back along `n` by `depth` and reflect its velocity if it is moving along `n`. */
+function pushOut(b: Body, nx: number, ny: number, depth: number): void {
+  b.px -= nx * depth;
+  b.py -= ny * depth;
+  const vn = b.vx * nx + b.vy * ny;
+  if (vn > 0) {
+    b.vx -= 2 * vn * nx;
+    b.vy -= 2 * vn * ny;
+  }
+}
+
 export class Arena {
   readonly x: number;
   readonly y: number;
   readonly size: number;
+  readonly layoutName: ArenaLayoutName;
+  readonly shape: ArenaShape;
+  readonly obstacles: Obstacle[];
+  /**
+   * Size of the walls as a share of `size`, scaled about the centre.
+   * Below 1 during sudden death; obstacles keep their place.
+   */
+  readonly scale: number;
 
-  constructor(x: number, y: number, size: number) {
+  constructor(x: number, y: number, size: number, layout: ArenaLayoutName = 'square', scale = 1) {
     this.x = x;
     this.y = y;
     this.size = size;
+    this.scale = scale;
+    this.layoutName = layout;
+    this.shape = ARENA_LAYOUTS[layout].shape;
+    this.obstacles = ARENA_LAYOUTS[layout].obstacles.map(o => o.kind === 'circle'
+      ? { kind: 'circle', x: x + o.x * size, y: y + o.y * size, r: o.r * size }
+      : { kind: 'rect', x: x + o.x * size, y: y + o.y * size, w: o.w * size, h: o.h * size });
   }
 
-  get left(): number  { return this.x; }
-  get right(): number { return this.x + this.size; }
-  get top(): number   { return this.y; }
-  get bottom(): number{ return this.y + this.size; }
+  get left(): number  { return this.x + this.size * (1 - this.scale) / 2; }
+  get right(): number { return this.x + this.size * (1 + this.scale) / 2; }
+  get top(): number   { return this.y + this.size * (1 - this.scale) / 2; }
+  get bottom(): number{ return this.y + this.size * (1 + this.scale) / 2; }
   get cx(): number    { return this.x + this.size / 2; }
   get cy(): number    { return this.y + this.size / 2; }
+  /** Half the wall-to-wall width: circle radius, octagon apothem. */
+  get radius(): number { return this.size * this.scale / 2; }
+
+  /** The same arena with its walls scaled to `scale` of the full size. */
+  shrunk(scale: number): Arena {
+    return new Arena(this.x, this.y, this.size, this.layoutName, scale);
+  }
+
+  /** Corner points of the octagon outline, for rendering. */
+  octagonPoints(): { x: number; y: number }[] {
+    // Vertices sit between edge normals, at apothem / cos(22.5°)
+    const r = this.radius / Math.cos(Math.PI / 8);
+    return Array.from({ length: 8 }, (_, k) => ({
+      x: this.cx + r * Math.cos((k + 0.5) * Math.PI / 4),
+      y: this.cy + r * Math.sin((k + 0.5) * Math.PI / 4),
+    }));
+  }
 
   /**
-   * Bounce a circle off arena walls.
+   * Bounce a circle off arena walls and obstacles.
    * Modifies px, py, vx, vy in-place via returned object.
    */
   bounceCircle(
     px: number, py: number, vx: number, vy: number, radius: number
   ): { px: number; py: number; vx: number; vy: number } {
-    let newVx = vx;
-    let newVy = vy;
-    let newPx = px;
-    let newPy = py;
-
-    if (newPx - radius < this.left) {
-      newPx = this.left + radius;
-      newVx = Math.abs(newVx);
-    } else if (newPx + radius > this.right) {
-      newPx = this.right - radius;
-      newVx = -Math.abs(newVx);
+    const b: Body = { px, py, vx, vy };
+
+    switch (this.shape) {
+      case 'square':  this.bounceSquare(b, radius); break;
+      case 'circle':  this.bounceRound(b, radius); break;
+      case 'octagon': this.bounceOctagon(b, radius); break;
+    }
+    for (const o of this.obstacles) this.bounceObstacle(b, o, radius);
+
+    return b;
+  }
+
+  private bounceSquare(b: Body, radius: number): void {
+    if (b.px - radius < this.left) {
+      b.px = this.left + radius;
+      b.vx = Math.abs(b.vx);
+    } else if (b.px + radius > this.right) {
+      b.px = this.right - radius;
+      b.vx = -Math.abs(b.vx);
     }
 
-    if (newPy - radius < this.top) {
-      newPy = this.top + radius;
-      newVy = Math.abs(newVy);
-    } else if (newPy + radius > this.bottom) {
-      newPy = this.bottom - radius;
-      newVy = -Math.abs(newVy);
+    if (b.py - radius < this.top) {
+      b.py = this.top + radius;
+      b.vy = Math.abs(b.vy);
+    } else if (b.py + radius > this.bottom) {
+      b.py = this.bottom - radius;
+      b.vy = -Math.abs(b.vy);
     }
+  }
 
-    return { px: newPx, py: newPy, vx: newVx, vy: newVy };
+  private bounceRound(b: Body, radius: number): void {
+    const dx = b.px - this.cx;
+    const dy = b.py - this.cy;
+    const d = Math.hypot(dx, dy);
+    const depth = d + radius - this.radius;
+    if (depth > 0 && d > 0) pushOut(b, dx / d, dy / d, depth);
+  }
+
+  private bounceOctagon(b: Body, radius: number): void {
+    const apothem = this.radius;
+    for (const n of OCTAGON_NORMALS) {
+      const depth = (b.px - this.cx) * n.x + (b.py - this.cy) * n.y + radius - apothem;
+      if (depth > 0) pushOut(b, n.x, n.y, depth);
+    }
+  }
+
+  private bounceObstacle(b: Body, o: Obstacle, radius: number): void {
+    if (o.kind === 'circle') {
+      const dx = b.px - o.x;
+      const dy = b.py - o.y;
+      const d = Math.hypot(dx, dy);
+      const depth = o.r + radius - d;
+      // Normal points into the obstacle, so pushOut moves the body away from it
+      if (depth > 0 && d > 0) pushOut(b, -dx / d, -dy / d, depth);
+      return;
+    }
+
+    const qx = Math.max(o.x, Math.min(o.x + o.w, b.px));
+    const qy = Math.max(o.y, Math.min(o.y + o.h, b.py));
+    const dx = b.px - qx;
+    const dy = b.py - qy;
+    const d = Math.hypot(dx, dy);
+    if (d > 0) {
+      if (d < radius) pushOut(b, -dx / d, -dy / d, radius - d);
+      return;
+    }
+
+    // Centre inside the rectangle: leave through the nearest face
+    const faces = [
+      { nx:  1, ny:  0, depth: b.px - o.x + radius },
+      { nx: -1, ny:  0, depth: o.x + o.w - b.px + radius },
+      { nx:  0, ny:  1, depth: b.py - o.y + radius },
+      { nx:  0, ny: -1, depth: o.y + o.h - b.py + radius },
+    ];
+    const f = faces.reduce((m, c) => (c.depth < m.depth ? c : m));
+    pushOut(b, f.nx, f.ny, f.depth);
+  }
+
+  /** True if a circle at (px, py) lies fully inside the arena and clear of every obstacle. */
+  fits(px: number, py: number, radius: number): boolean {
+    switch (this.shape) {
+      case 'square':
+        if (px - radius < this.left || px + radius > this.right ||
+            py - radius < this.top  || py + radius > this.bottom) return false;
+        break;
+      case 'circle':
+        if (Math.hypot(px - this.cx, py - this.cy) + radius > this.radius) return false;
+        break;
+      case 'octagon':
+        for (const n of OCTAGON_NORMALS) {
+          if ((px - this.cx) * n.x + (py - this.cy) * n.y + radius > this.radius) return false;
+        }
+        break;
+    }
+    return this.obstacles.every(o => o.kind === 'circle'
+      ? Math.hypot(px - o.x, py - o.y) >= o.r + radius
+      : Math.hypot(
+          px - Math.max(o.x, Math.min(o.x + o.w, px)),
+          py - Math.max(o.y, Math.min(o.y + o.h, py)),
+        ) >= radius);
   }
 
   /** Clamp a point inside the arena with optional margin. */
@@ -0,0 +1,80 @@
+import { CurrencyConfig, DEFAULT_CURRENCY, Minor, toMajor, toMinor } from './Money';
+
+/** Round counts the player can pick from. */
+export const AUTOPLAY_ROUNDS: readonly number[] = [10, 25, 50, 100, 250, 1000];
+/** Pause between autoplayed rounds, in ms; halved under speedup. */
+export const AUTOPLAY_GAP_MS = 600;
+
+export interface AutoplayConfig {
+  rounds: number;
+  /** Stop once the run has lost this much, net, in FUN. */
+  lossLimit: number | null;
+  /** Stop after a single round nets at least this much. */
+  singleWin: number | null;
+  /** Stop once the balance falls to this or below. */
+  balanceFloor: number | null;
+}
+
+export type AutoplayStop =
+  | 'rounds'
+  | 'loss_limit'
+  | 'single_win'
+  | 'balance_floor'
+  /** The player pressed a key or the stop button. */
+  | 'player'
+  /** The next round couldn't start: balance or a session limit. */
+  | 'blocked';
+
+export const AUTOPLAY_STOP_LABELS: Record<AutoplayStop, string> = {
+  rounds:        'all rounds played',
+  loss_limit:    'loss limit reached',
+  single_win:    'single-win threshold reached',
+  balance_floor: 'balance floor reached',
+  player:        'stopped',
+  blocked:       'next round could not start',
+};
+
+/**
+ * One autoplay run: counts rounds and their net result and decides when to
+ * stop. The game drives the rounds; this only keeps score.
+ */
+export class Autoplay {
+  played = 0;
+  /** Why the run ended, or null while it is going. */
+  stopped: AutoplayStop | null = null;
+  private netMinor: Minor = 0;
+
+  constructor(readonly config: AutoplayConfig, private currency: CurrencyConfig = DEFAULT_CURRENCY) {
+    if (!(config.rounds > 0)) throw new Error(`Autoplay needs at least one round, got ${config.rounds}`);
+  }
+
+  /** Net result of the run so far, in FUN. */
+  get net(): number {
+    return toMajor(this.netMinor, this.currency);
+  }
+
+  get running(): boolean {
+    return this.stopped === null;
+  }
+
+  /**
+   * Count a finished round: `roundNet` is what it changed the balance by,
+   * stake included. Returns why the run stops here, or null to go on.
+   */
+  recordRound(roundNet: number, balance: number): AutoplayStop | null {
+    if (!this.running) return this.stopped;
+    const minor = (x: number): Minor => toMinor(x, this.currency);
+    this.played++;
+    this.netMinor += minor(roundNet);
+    const { rounds, lossLimit, singleWin, balanceFloor } = this.config;
+    if (singleWin !== null && minor(roundNet) >= minor(singleWin)) this.stopped = 'single_win';
+    else if (lossLimit !== null && -this.netMinor >= minor(lossLimit)) this.stopped = 'loss_limit';
+    else if (balanceFloor !== null && minor(balance) <= minor(balanceFloor)) this.stopped = 'balance_floor';
+    else if (this.played >= rounds) this.stopped = 'rounds';
+    return this.stopped;
+  }
+
+  stop(reason: AutoplayStop): void {
+    this.stopped ??= reason;
+  }
+}
@@ -1,10 +1,16 @@
 import type { Warrior } from './Warrior';
 import type { Arena } from './Arena';
 import type { Rng } from './Rng';
+import type { DamageEvent, DamageTable } from './Combat';
 import { distSq } from './Physics';
 import { WARRIOR_RADIUS } from './Warrior';
 
-export type BoosterType = 'burger' | 'glove' | 'shield';
+export type BoosterType = 'burger' | 'glove' | 'shield' | 'boots' | 'thorns' | 'vampire' | 'magnet';
+
+/** Who can collect a pickup: only the player who bought it, or anyone who rolls over it first. */
+export type PickupRule = 'player' | 'any';
+
+export const PICKUP_RULES: readonly PickupRule[] = ['player', 'any'];
 
 export interface BoosterPickup {
   type: BoosterType;
@@ -14,33 +20,172 @@ export interface BoosterPickup {
   active: boolean;
 }
 
+/** A collected booster still working on its holder. */
+export interface ActiveEffect {
+  type: BoosterType;
+  /** Hits left before it is spent; Infinity when only time limits it. */
+  charges: number;
+  /** Round time it wears off at; Infinity when only charges limit it. */
+  expiresMs: number;
+}
+
+export interface BoosterStepContext {
+  dt: number;
+  /** The pickup waiting on the field, if any. */
+  pickup: BoosterPickup | null;
+}
+
+/**
+ * One booster type. Lasting effects declare `durationMs`, `charges` or
+ * both; one without either acts once on pickup. Collecting a type that is
+ * already running stacks onto it: charges add up and time is extended.
+ */
+export interface BoosterDef {
+  name: string;
+  icon: string;
+  /** Price in FUN, before the round or mid-round. */
+  cost: number;
+  /** Floating text shown on pickup. */
+  pickupText: string;
+  /** One-line description for the UI. */
+  description: string;
+  /** Ring drawn around the holder while the effect lasts. */
+  ringColor?: number;
+  durationMs?: number;
+  charges?: number;
+
+  /** Runs on every pickup, before the effect is added or stacked. */
+  onPickup?(w: Warrior): void;
+  /** The effect starts on a warrior that did not hold it yet. */
+  onStart?(w: Warrior): void;
+  /** The effect ran out of time or charges. */
+  onEnd?(w: Warrior): void;
+  /** New damage for a hit the holder is about to take, or undefined to leave it. 0 blocks the hit. A number spends a charge. */
+  onIncoming?(ev: DamageEvent): number | undefined;
+  /** New damage for a hit the holder is about to deal, or undefined to leave it. A number spends a charge. */
+  onOutgoing?(ev: DamageEvent, table: DamageTable): number | undefined;
+  /** A hit by the holder landed. */
+  onDealt?(ev: DamageEvent): void;
+  /** A hit on the holder landed; may answer with damage of its own. */
+  onTaken?(ev: DamageEvent): DamageEvent | null;
+  /** Once per step while the effect lasts. */
+  onStep?(w: Warrior, ctx: BoosterStepContext): void;
+}
+
+const BURGER_HEAL      = 10;
+const BOOTS_SPEED_MUL  = 1.3;
+const THORNS_SHARE     = 0.5;
+const VAMPIRE_SHARE    = 0.5;
+const MAGNET_PULL      = 150; // px/s
+
+export const BOOSTERS: Record<BoosterType, BoosterDef> = {
+  burger: {
+    name: 'Burger', icon: '🍔', cost: 1,
+    pickupText: `+${BURGER_HEAL} HP`,
+    description: `Heals ${BURGER_HEAL} HP`,
+    onPickup: (w) => {
+      w.healHP(BURGER_HEAL);
+      w.healPulse = true;
+      w.healPulseTimer = 600; // ms
+    },
+  },
+  glove: {
+    name: 'Glove', icon: '🥊', cost: 1, charges: 1, ringColor: 0xffdd00,
+    pickupText: 'GLOVE READY',
+    description: 'Next weapon hit deals bonus damage',
+    onOutgoing: (ev, table) => (ev.type === 'weapon_body' ? ev.damage + table.gloveBonus : undefined),
+  },
+  shield: {
+    name: 'Shield', icon: '🛡️', cost: 1, charges: 1, ringColor: 0x44ff44,
+    pickupText: 'SHIELD READY',
+    description: 'Blocks the next hit taken',
+    onIncoming: () => 0,
+  },
+  boots: {
+    name: 'Speed Boots', icon: '👟', cost: 1, durationMs: 10_000, ringColor: 0x40c0ff,
+    pickupText: 'SPEED UP',
+    description: `×${BOOTS_SPEED_MUL} speed for 10 s`,
+    onStart: (w) => { w.speed *= BOOTS_SPEED_MUL; w.normalise(); },
+    onEnd:   (w) => { w.speed /= BOOTS_SPEED_MUL; w.normalise(); },
+  },
+  thorns: {
+    name: 'Thorns', icon: '🌵', cost: 2, durationMs: 15_000, ringColor: 0x80ff40,
+    pickupText: 'THORNS',
+    description: `Reflects ${THORNS_SHARE * 100}% of body damage taken for 15 s`,
+    onTaken: (ev) => {
+      if (ev.type !== 'body_body') return null;
+      const damage = Math.round(ev.damage * THORNS_SHARE);
+      return damage > 0 ? { attacker: ev.victim, victim: ev.attacker, type: 'reflect', damage } : null;
+    },
+  },
+  vampire: {
+    name: 'Vampire', icon: '🧛', cost: 2, durationMs: 20_000, ringColor: 0xc040ff,
+    pickupText: 'VAMPIRE',
+    description: `Heals ${VAMPIRE_SHARE * 100}% of weapon damage dealt for 20 s`,
+    onDealt: (ev) => {
+      if (ev.type === 'weapon_body') ev.attacker.healHP(Math.round(ev.damage * VAMPIRE_SHARE));
+    },
+  },
+  magnet: {
+    name: 'Magnet', icon: '🧲', cost: 1, durationMs: 30_000, ringColor: 0xff6060,
+    pickupText: 'MAGNET',
+    description: 'Pulls boosters on the field towards you for 30 s',
+    onStep: (w, { dt, pickup }) => {
+      if (!pickup?.active) return;
+      const dx = w.px - pickup.px;
+      const dy = w.py - pickup.py;
+      const d = Math.hypot(dx, dy);
+      const step = Math.min(d, MAGNET_PULL * dt);
+      if (d > 0) {
+        pickup.px += dx / d * step;
+        pickup.py += dy / d * step;
+      }
+    },
+  },
+};
+
+export const BOOSTER_TYPES = Object.keys(BOOSTERS) as BoosterType[];
+
+export function isBoosterType(s: string): s is BoosterType {
+  return Object.prototype.hasOwnProperty.call(BOOSTERS, s);
+}
+
+/** Price of a round's pre-bought booster; 0 for 'none'. */
+export function boosterCost(type: BoosterType | 'none'): number {
+  return type === 'none' ? 0 : BOOSTERS[type].cost;
+}
+
 const PICKUP_RADIUS = 14;
 const COLLECT_DIST = WARRIOR_RADIUS + PICKUP_RADIUS;
 
+/** Attempts at finding a spot clear of walls and obstacles. */
+const SPAWN_ATTEMPTS = 1000;
+
 export function spawnBooster(type: BoosterType, arena: Arena, rng: Rng): BoosterPickup {
   const margin = PICKUP_RADIUS + 20;
-  return {
-    type,
-    px: rng.float(arena.left + margin, arena.right - margin),
-    py: rng.float(arena.top + margin, arena.bottom - margin),
-    radius: PICKUP_RADIUS,
-    active: true,
-  };
+  for (let i = 0; i < SPAWN_ATTEMPTS; i++) {
+    const px = rng.float(arena.left + margin, arena.right - margin);
+    const py = rng.float(arena.top + margin, arena.bottom - margin);
+    if (arena.fits(px, py, margin)) {
+      return { type, px, py, radius: PICKUP_RADIUS, active: true };
+    }
+  }
+  throw new Error(`No free spot for a booster in the ${arena.layoutName} arena`);
 }
 
 /**
- * Check if player warrior overlaps the booster pickup.
+ * Check if a warrior overlaps the booster pickup.
  * If so, consume it and apply the effect.
  * Returns true if collected.
  */
 export function checkPickup(
-  player: Warrior,
+  w: Warrior,
   booster: BoosterPickup,
   onCollect: (b: BoosterPickup) => void
 ): boolean {
   if (!booster.active) return false;
 
-  const d2 = distSq(player.px, player.py, booster.px, booster.py);
+  const d2 = distSq(w.px, w.py, booster.px, booster.py);
   if (d2 < COLLECT_DIST * COLLECT_DIST) {
     booster.active = false;
     onCollect(booster);
@@ -49,21 +194,95 @@ export function checkPickup(
   return false;
 }
 
-/** Apply collected booster to player warrior. */
-export function applyBooster(player: Warrior, booster: BoosterPickup): string {
-  switch (booster.type) {
-    case 'burger':
-      player.healHP(10);
-      player.healPulse = true;
-      player.healPulseTimer = 600; // ms
-      return '+10 HP';
-
-    case 'glove':
-      player.boosterEffect = 'glove';
-      return 'GLOVE READY';
-
-    case 'shield':
-      player.boosterEffect = 'shield';
-      return 'SHIELD READY';
+/** Apply a collected booster, adding or stacking its effect. Returns the pickup text. */
+export function applyBooster(w: Warrior, booster: BoosterPickup, nowMs: number): string {
+  const def = BOOSTERS[booster.type];
+  def.onPickup?.(w);
+  if (def.durationMs === undefined && def.charges === undefined) return def.pickupText;
+
+  const running = w.effects.find(e => e.type === booster.type);
+  if (running) {
+    running.charges   += def.charges ?? 0;
+    running.expiresMs += def.durationMs ?? 0;
+  } else {
+    w.effects.push({
+      type: booster.type,
+      charges: def.charges ?? Infinity,
+      expiresMs: def.durationMs !== undefined ? nowMs + def.durationMs : Infinity,
+    });
+    def.onStart?.(w);
+  }
+  return def.pickupText;
+}
+
+/**
+ * Effects still running on a warrior at `nowMs`, with their expiry made
+ * relative to that moment so they can be restored into a later round.
+ */
+export function carryEffects(w: Warrior, nowMs: number): ActiveEffect[] {
+  return w.effects
+    .filter(e => e.charges > 0 && e.expiresMs > nowMs)
+    .map(e => ({ ...e, expiresMs: e.expiresMs - nowMs }));
+}
+
+/** Start carried effects on a fresh warrior, as if just picked up. */
+export function restoreEffects(w: Warrior, effects: ActiveEffect[]): void {
+  for (const e of effects) {
+    w.effects.push({ ...e });
+    BOOSTERS[e.type].onStart?.(w);
+  }
+}
+
+/**
+ * Run a warrior's per-step hooks, then drop effects that are spent or
+ * out of time. Returns the types that ended.
+ */
+export function updateEffects(w: Warrior, nowMs: number, ctx: BoosterStepContext): BoosterType[] {
+  if (w.effects.length === 0) return [];
+  for (const e of w.effects) BOOSTERS[e.type].onStep?.(w, ctx);
+
+  const ended: BoosterType[] = [];
+  w.effects = w.effects.filter(e => {
+    if (e.charges > 0 && e.expiresMs > nowMs) return true;
+    BOOSTERS[e.type].onEnd?.(w);
+    ended.push(e.type);
+    return false;
+  });
+  return ended;
+}
+
+/** Pass a hit through the victim's incoming hooks. Returns the damage left; 0 means blocked. */
+export function adjustIncoming(ev: DamageEvent): number {
+  let damage = ev.damage;
+  for (const e of ev.victim.effects) {
+    const next = e.charges > 0 ? BOOSTERS[e.type].onIncoming?.({ ...ev, damage }) : undefined;
+    if (next === undefined) continue;
+    e.charges--;
+    damage = next;
+    if (damage <= 0) return 0;
+  }
+  return damage;
+}
+
+/** Pass a hit through the attacker's outgoing hooks. */
+export function adjustOutgoing(ev: DamageEvent, table: DamageTable): number {
+  let damage = ev.damage;
+  for (const e of ev.attacker.effects) {
+    const next = e.charges > 0 ? BOOSTERS[e.type].onOutgoing?.({ ...ev, damage }, table) : undefined;
+    if (next === undefined) continue;
+    e.charges--;
+    damage = next;
+  }
+  return damage;
+}
+
+/** Tell both sides a hit landed. Returns any damage sent back. */
+export function notifyHit(ev: DamageEvent): DamageEvent[] {
+  for (const e of ev.attacker.effects) BOOSTERS[e.type].onDealt?.(ev);
+  const answers: DamageEvent[] = [];
+  for (const e of ev.victim.effects) {
+    const answer = BOOSTERS[e.type].onTaken?.(ev);
+    if (answer) answers.push(answer);
   }
+  return answers;
 }
@@ -0,0 +1,190 @@
+/**
+ * RTP calibration — fits the outcome nudges and the paytable to a target
+ * win probability and RTP for one mode, using the headless simulator.
+ *
+ * 1. Outcome strength: WIN/LOSE params are scaled toward or away from
+ *    neutral (OutcomeController.scaled). Bisection finds the smallest
+ *    strength whose observed win rate is within tolerance of winProb;
+ *    if none is, the closer of the two search bounds is kept.
+ * 2. Paytable: the economy only observes a round, so for a fixed batch of
+ *    rounds the total payout is linear in the win multiplier and in a
+ *    common scale on WEAPON_REWARD/DAMAGE_PENALTY. Both are solved in
+ *    closed form from the batch aggregate — no extra simulation needed.
+ * 3. Validation: the fitted config is re-simulated on a disjoint hold-out
+ *    seed range and must contain the target RTP in its confidence interval.
+ */
+
+import {
+  SimConfig, SimAggregate, SimSummary, DEFAULT_SIM_CONFIG, Z_SCORES, summarise,
+} from './Simulation.js';
+import { OutcomeController, OutcomeConfig } from './OutcomeController.js';
+import { DEFAULT_PAYTABLE, PayoutConfig, Paytable, payoutFor } from './Economy.js';
+
+export interface CalibrationTarget {
+  /** Number of warriors, player included. */
+  mode: number;
+  /** Controller setting, and the win rate it should deliver. */
+  winProb: number;
+  targetRtp: number;
+}
+
+export interface CalibrationOptions {
+  /** Rounds per search evaluation. */
+  rounds: number;
+  /** Rounds in the hold-out validation run. */
+  validateRounds: number;
+  seedBase: number;
+  /** Accepted |observed win rate − winProb|. */
+  winTolerance: number;
+  /** Upper bound for the outcome strength search (1 = current params). */
+  maxStrength: number;
+  /** Bisection steps on the outcome strength. */
+  iterations: number;
+  z: number;
+  /** Rows the search starts from, one per mode. */
+  basePaytable: Paytable;
+}
+
+export const DEFAULT_CALIBRATION_OPTIONS: CalibrationOptions = {
+  rounds: 5_000,
+  validateRounds: 10_000,
+  seedBase: 0,
+  winTolerance: 0.02,
+  maxStrength: 4,
+  iterations: 6,
+  z: Z_SCORES['0.95'],
+  basePaytable: DEFAULT_PAYTABLE,
+};
+
+/** Multiplier range the solver may pick before it falls back to rescaling rewards. */
+export const MIN_WIN_MULTIPLIER = 1;
+export const MAX_WIN_MULTIPLIER = 3;
+
+/** Simulates one configuration — in-process or on a worker pool. */
+export type SimRunner = (cfg: SimConfig) => Promise<SimAggregate>;
+
+export interface CalibrationResult {
+  target: CalibrationTarget;
+  strength: number;
+  outcome: OutcomeConfig;
+  payout: PayoutConfig;
+  /** Hold-out run with the fitted config. */
+  validation: SimSummary;
+  validated: boolean;
+  /** Human-readable reasons when a target could not be met. */
+  notes: string[];
+}
+
+const round3 = (x: number): number => Math.round(x * 1000) / 1000;
+
+/**
+ * Solve the paytable that prices `agg` (simulated with `base`) at `targetRtp`.
+ * Tries the win multiplier alone first; if that lands outside
+ * [MIN_WIN_MULTIPLIER, MAX_WIN_MULTIPLIER] it clamps the multiplier and
+ * rescales weapon reward and damage penalty together.
+ */
+export function solvePayout(
+  agg: SimAggregate,
+  base: PayoutConfig,
+  targetRtp: number,
+  notes: string[] = [],
+): PayoutConfig {
+  // Σfinal(k, M) = k · (ΣroundProfit + (M − 1) · ΣwinningRoundProfit) + bonus · wins
+  const need = (targetRtp - 1) * agg.wagered - base.winBonus * agg.wins;
+  const priced = (m: number): number => agg.roundProfit + (m - 1) * agg.winningRoundProfit;
+
+  let multiplier = base.winMultiplier;
+  if (agg.winningRoundProfit > 0) {
+    multiplier = 1 + (need - agg.roundProfit) / agg.winningRoundProfit;
+  }
+  multiplier = Math.max(MIN_WIN_MULTIPLIER, Math.min(MAX_WIN_MULTIPLIER, multiplier));
+
+  let scale = 1;
+  const p = priced(multiplier);
+  if (Math.abs(p - need) > 1e-9) {
+    scale = p !== 0 ? need / p : 0;
+    if (scale <= 0) {
+      notes.push(`target RTP ${targetRtp} is out of reach of the paytable; rewards left unscaled`);
+      scale = 1;
+    }
+  }
+
+  return {
+    weaponReward:  round3(base.weaponReward * scale),
+    damagePenalty: round3(base.damagePenalty * scale),
+    winMultiplier: round3(multiplier),
+    winBonus:      base.winBonus,
+    allyRewardShare: base.allyRewardShare,
+  };
+}
+
+export async function calibrateMode(
+  target: CalibrationTarget,
+  run: SimRunner,
+  opts: CalibrationOptions = DEFAULT_CALIBRATION_OPTIONS,
+  log: (msg: string) => void = () => {},
+): Promise<CalibrationResult> {
+  const notes: string[] = [];
+  const basePayout = payoutFor(opts.basePaytable, target.mode);
+  const baseCfg: SimConfig = {
+    ...DEFAULT_SIM_CONFIG,
+    rounds: opts.rounds,
+    mode: target.mode,
+    winProb: target.winProb,
+    seedBase: opts.seedBase,
+    payout: basePayout,
+  };
+
+  const evaluate = async (strength: number): Promise<SimAggregate> => {
+    const agg = await run({ ...baseCfg, outcome: OutcomeController.scaled(strength) });
+    log(`  strength ${strength.toFixed(3)} → win rate ${(agg.wins / agg.rounds * 100).toFixed(2)}%`);
+    return agg;
+  };
+  const winError = (agg: SimAggregate): number => Math.abs(agg.wins / agg.rounds - target.winProb);
+  const withinTolerance = (agg: SimAggregate): boolean => winError(agg) <= opts.winTolerance;
+
+  // ── 1. Outcome strength ─────────────────────────────────────────────────
+
+  let lo = 0;
+  let hi = 0;
+  let best = await evaluate(0);
+  if (!withinTolerance(best)) {
+    const atMax = await evaluate(opts.maxStrength);
+    if (!withinTolerance(atMax)) {
+      notes.push(`no strength in [0, ${opts.maxStrength}] brings the win rate within ±${opts.winTolerance} of ${target.winProb}`);
+      if (winError(atMax) < winError(best)) { hi = opts.maxStrength; best = atMax; }
+    } else {
+      hi = opts.maxStrength;
+      best = atMax;
+      for (let i = 0; i < opts.iterations; i++) {
+        const mid = round3((lo + hi) / 2);
+        if (mid === lo || mid === hi) break;
+        const agg = await evaluate(mid);
+        if (withinTolerance(agg)) { hi = mid; best = agg; } else { lo = mid; }
+      }
+    }
+  }
+  const strength = hi;
+  const outcome = OutcomeController.scaled(strength);
+
+  // ── 2. Paytable ─────────────────────────────────────────────────────────
+  const payout = solvePayout(best, basePayout, target.targetRtp, notes);
+  log(`  payout reward ${payout.weaponReward} penalty ${payout.damagePenalty} ×${payout.winMultiplier}`);
+
+  // ── 3. Hold-out validation ──────────────────────────────────────────────
+  const validateCfg: SimConfig = {
+    ...baseCfg,
+    rounds: opts.validateRounds,
+    seedBase: opts.seedBase + opts.rounds, // disjoint from the search seeds
+    outcome,
+    payout,
+  };
+  const validation = summarise(validateCfg, await run(validateCfg), opts.z);
+
+  const rtpOk = validation.rtpCi.low <= target.targetRtp && target.targetRtp <= validation.rtpCi.high;
+  const winOk = Math.abs(validation.winRate - target.winProb) <= opts.winTolerance;
+  if (!rtpOk) notes.push(`hold-out RTP interval does not contain ${target.targetRtp}`);
+  if (!winOk) notes.push(`hold-out win rate ${validation.winRate.toFixed(4)} is outside tolerance`);
+
+  return { target, strength, outcome, payout, validation, validated: rtpOk && winOk, notes };
+}
@@ -0,0 +1,197 @@
+/**
+ * Command-line front end for the RTP calibration solver.
+ *
+ *   npm run calibrate -- --mode 2,3,4 --win-prob 0.5 --target-rtp 0.95 \
+ *     --rounds 5000 --out calibration.json
+ *
+ * --win-prob and --target-rtp take either one value for every mode or one
+ * value per mode, in the same order as --mode.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { Z_SCORES, simulateAggregate } from './Simulation.js';
+import { SimulationPool, defaultWorkerCount } from './ParallelSimulation.js';
+import { isValidMode, modeLabel } from './RoundEngine.js';
+import {
+  CalibrationTarget, CalibrationOptions, CalibrationResult, SimRunner,
+  DEFAULT_CALIBRATION_OPTIONS, calibrateMode,
+} from './Calibration.js';
+
+const D = DEFAULT_CALIBRATION_OPTIONS;
+
+const USAGE = `Usage: npm run calibrate -- [options]
+
+  --mode <list>            Warriors per round, 2-4|16-64      (default 2,3,4)
+  --win-prob <list>        Win probability per mode, 0-1      (default 0.5)
+  --target-rtp <list>      Target RTP per mode, e.g. 0.95     (default 0.95)
+  --rounds <n>             Rounds per search step             (default ${D.rounds})
+  --validate-rounds <n>    Rounds in the hold-out validation  (default ${D.validateRounds})
+  --seed-base <n>          Offset into the seed sequence      (default ${D.seedBase})
+  --win-tolerance <x>      Accepted win-rate error            (default ${D.winTolerance})
+  --max-strength <x>       Outcome bias search bound          (default ${D.maxStrength})
+  --iterations <n>         Bisection steps                    (default ${D.iterations})
+  --confidence <level>     ${Object.keys(Z_SCORES).join('|')}                      (default 0.95)
+  --workers <n>            Worker threads (1 = in-process)    (default all cores)
+  --out <file>             Write the config JSON to a file instead of stdout
+  -h, --help               Show this help`;
+
+interface CliOptions {
+  targets: CalibrationTarget[];
+  opts: CalibrationOptions;
+  workers: number;
+  out: string | null;
+}
+
+function parseNumber(name: string, s: string, min: number, max: number, integer = false): number {
+  const n = Number(s);
+  if (s.trim() === '' || !Number.isFinite(n) || n < min || n > max || (integer && !Number.isInteger(n))) {
+    throw new Error(`--${name} expects ${integer ? 'an integer' : 'a number'} in [${min}, ${max}], got "${s}"`);
+  }
+  return n;
+}
+
+function parseList(name: string, raw: string, min: number, max: number, integer = false): number[] {
+  return raw.split(',').map(s => parseNumber(name, s.trim(), min, max, integer));
+}
+
+/** Expand a one-value list to every mode, or check it has one value per mode. */
+function perMode(name: string, values: number[], modes: number): number[] {
+  if (values.length === 1) return Array(modes).fill(values[0]);
+  if (values.length !== modes) {
+    throw new Error(`--${name} needs 1 or ${modes} values, got ${values.length}`);
+  }
+  return values;
+}
+
+function parseCli(argv: string[]): CliOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      mode:              { type: 'string' },
+      'win-prob':        { type: 'string' },
+      'target-rtp':      { type: 'string' },
+      rounds:            { type: 'string' },
+      'validate-rounds': { type: 'string' },
+      'seed-base':       { type: 'string' },
+      'win-tolerance':   { type: 'string' },
+      'max-strength':    { type: 'string' },
+      iterations:        { type: 'string' },
+      confidence:        { type: 'string' },
+      workers:           { type: 'string' },
+      out:               { type: 'string' },
+      help:              { type: 'boolean', short: 'h' },
+    },
+    strict: true,
+  });
+  if (values.help) return null;
+
+  const modes = parseList('mode', values.mode ?? '2,3,4', 2, 64, true);
+  const badMode = modes.find(m => !isValidMode(m));
+  if (badMode !== undefined) {
+    throw new Error(`--mode expects 2-4 (classic) or 16-64 (battle royale), got "${badMode}"`);
+  }
+  const probs = perMode('win-prob', parseList('win-prob', values['win-prob'] ?? '0.5', 0, 1), modes.length);
+  const rtps  = perMode('target-rtp', parseList('target-rtp', values['target-rtp'] ?? '0.95', 0, 2), modes.length);
+
+  const confidence = values.confidence ?? '0.95';
+  const z = Z_SCORES[confidence];
+  if (z === undefined) {
+    throw new Error(`--confidence expects one of ${Object.keys(Z_SCORES).join(', ')}, got "${confidence}"`);
+  }
+
+  const num = (name: keyof typeof values, fallback: number, min: number, max: number, integer = false): number => {
+    const raw = values[name];
+    return typeof raw === 'string' ? parseNumber(name, raw, min, max, integer) : fallback;
+  };
+
+  return {
+    targets: modes.map((mode, i) => ({ mode, winProb: probs[i], targetRtp: rtps[i] })),
+    opts: {
+      ...D,
+      rounds:         num('rounds', D.rounds, 100, 1e8, true),
+      validateRounds: num('validate-rounds', D.validateRounds, 100, 1e8, true),
+      seedBase:       num('seed-base', D.seedBase, 0, 2 ** 31, true),
+      winTolerance:   num('win-tolerance', D.winTolerance, 0, 1),
+      maxStrength:    num('max-strength', D.maxStrength, 0, 100),
+      iterations:     num('iterations', D.iterations, 0, 50, true),
+      z,
+    },
+    workers: num('workers', defaultWorkerCount(), 1, 256, true),
+    out: values.out ?? null,
+  };
+}
+
+/** The emitted config — what a maintainer pastes into OutcomeController/Economy. */
+function toConfigJson(results: CalibrationResult[]): string {
+  const modes = results.map(r => ({
+    mode: r.target.mode,
+    winProb: r.target.winProb,
+    targetRtp: r.target.targetRtp,
+    validated: r.validated,
+    strength: r.strength,
+    winParams: r.outcome.win,
+    loseParams: r.outcome.lose,
+    payout: r.payout,
+    achieved: {
+      rounds: r.validation.rounds,
+      rtp: r.validation.rtp,
+      rtpCi: r.validation.rtpCi,
+      winRate: r.validation.winRate,
+      winRateCi: r.validation.winRateCi,
+    },
+    notes: r.notes,
+  }));
+  return JSON.stringify({ modes }, null, 2) + '\n';
+}
+
+async function main(argv: string[]): Promise<number> {
+  let cli: CliOptions | null;
+  try {
+    cli = parseCli(argv);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+  if (!cli) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const pool = cli.workers > 1 ? new SimulationPool(cli.workers) : null;
+  const run: SimRunner = pool
+    ? (cfg) => pool.run(cfg)
+    : async (cfg) => simulateAggregate(cfg);
+
+  const results: CalibrationResult[] = [];
+  try {
+    for (const target of cli.targets) {
+      console.error(`Calibrating ${modeLabel(target.mode)} | WinProb: ${target.winProb} | Target RTP: ${target.targetRtp}`);
+      const r = await calibrateMode(target, run, cli.opts, msg => console.error(msg));
+      const v = r.validation;
+      console.error(
+        `  ${r.validated ? 'VALID' : 'NOT VALIDATED'}: RTP ${(v.rtp * 100).toFixed(2)}% ` +
+        `[${(v.rtpCi.low * 100).toFixed(2)}, ${(v.rtpCi.high * 100).toFixed(2)}] | ` +
+        `win ${(v.winRate * 100).toFixed(2)}%`,
+      );
+      for (const note of r.notes) console.error(`  note: ${note}`);
+      results.push(r);
+    }
+  } finally {
+    await pool?.close();
+  }
+
+  const output = toConfigJson(results);
+  if (cli.out) {
+    writeFileSync(cli.out, output);
+    console.error(`Wrote calibration for ${results.length} mode(s) to ${cli.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+  return results.every(r => r.validated) ? 0 : 2;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (err) => { console.error(err); process.exitCode = 1; },
+);
@@ -1,72 +1,138 @@
-import { Warrior, WARRIOR_RADIUS, WEAPON_RADIUS } from './Warrior';
+import { Warrior, WARRIOR_RADIUS } from './Warrior';
 import { CollisionPair, distSq } from './Physics';
 import type { OutcomeParams } from './OutcomeController';
+import { adjustIncoming, adjustOutgoing, notifyHit } from './Boosters';
 
 export type CollisionType = 'weapon_body' | 'body_body' | 'weapon_weapon' | 'none';
 
+/** What dealt a hit: a collision, or damage a booster sent back ('reflect'). */
+export type DamageType = CollisionType | 'reflect';
+
 export interface DamageEvent {
   attacker: Warrior;
   victim: Warrior;
-  type: CollisionType;
+  type: DamageType;
   damage: number;
 }
 
-const COOLDOWN_MS = 120;
-
-const pairCooldowns = new Map<string, number>();
+/**
+ * Damage numbers for each collision type. The base weapon-on-body hit is
+ * the attacker's archetype damage, before outcome bonuses.
+ */
+export interface DamageTable {
+  weaponBodyMax: number;
+  /** Base body-on-body bump, dealt to both warriors. */
+  bodyBody: number;
+  bodyBodyMax: number;
+  /** Floor for any hit that lands. */
+  minDamage: number;
+  /** Extra damage on the next weapon hit while the glove is held. */
+  gloveBonus: number;
+}
 
-function pairKey(a: Warrior, b: Warrior): string {
-  return `${Math.min(a.id, b.id)}_${Math.max(a.id, b.id)}`;
+/** Share of normal damage dealt between allies; 0 turns friendly fire off. */
+export interface FriendlyFireRules {
+  weaponBody: number;
+  bodyBody: number;
 }
 
-export function clearCooldowns(): void {
-  pairCooldowns.clear();
+export interface CombatConfig {
+  /**
+   * Floor on the time between two hits of the same pair, on the round
+   * clock. The pair's actual cooldown is the slower of its two archetypes.
+   */
+  cooldownMs: number;
+  damage: DamageTable;
+  friendlyFire: FriendlyFireRules;
 }
 
+export const DEFAULT_DAMAGE_TABLE: DamageTable = {
+  weaponBodyMax: 40,
+  bodyBody: 10,
+  bodyBodyMax: 25,
+  minDamage: 1,
+  gloveBonus: 10,
+};
+
+export const DEFAULT_FRIENDLY_FIRE: FriendlyFireRules = {
+  weaponBody: 0,
+  bodyBody: 0,
+};
+
+export const DEFAULT_COMBAT_CONFIG: CombatConfig = {
+  cooldownMs: 60,
+  damage: DEFAULT_DAMAGE_TABLE,
+  friendlyFire: DEFAULT_FRIENDLY_FIRE,
+};
+
 /** Classification result: collision type + which warrior is the weapon-attacker. */
-interface ClassifyResult {
+export interface ClassifyResult {
   type: CollisionType;
   /** True = A's weapon hit B's body. False = B's weapon hit A's body. Only relevant for weapon_body. */
   attackerIsA: boolean;
 }
 
+/** Decides what kind of contact a colliding pair made. */
+export type CollisionClassifier = (
+  pair: CollisionPair,
+  params: OutcomeParams,
+  rng: () => number
+) => ClassifyResult;
+
 /**
  * Classify the weapon interaction for a colliding pair.
  *
- * Key fix: bestOverlap starts at 0, not -Infinity.
- * This means body_body is the default when no weapon circle actually
- * overlaps the opposite body or weapon. Avoids misclassifying as
- * weapon_body based purely on "nearest weapon" when no real contact exists.
+ * A weapon contact only counts if it came no later than the bodies met
+ * (bodies already touching leave the whole step for it), so the result
+ * comes from the swept contact times and not from where a step happened
+ * to end. The earliest qualifying contact wins; contacts at the same
+ * time fall back to the deepest end-of-step overlap.
+ *
+ * body_body is the default when no weapon circle actually touched the
+ * opposite body or weapon. Avoids misclassifying as weapon_body based
+ * purely on "nearest weapon" when no real contact exists.
  */
-function classifyCollision(
-  a: Warrior,
-  b: Warrior,
+export function classifyCollision(
+  pair: CollisionPair,
   params: OutcomeParams,
   rng: () => number
 ): ClassifyResult {
-  const wR = WEAPON_RADIUS;
-  const bR = WARRIOR_RADIUS;
+  const { a, b, contact } = pair;
+  const waR = a.stats.weaponRadius;
+  const wbR = b.stats.weaponRadius;
+  const bR  = WARRIOR_RADIUS;
 
-  const overlapWaBodyB = (wR + bR) - Math.sqrt(distSq(a.weaponX, a.weaponY, b.px, b.py));
-  const overlapWbBodyA = (wR + bR) - Math.sqrt(distSq(b.weaponX, b.weaponY, a.px, a.py));
-  const overlapWaWb    = (wR + wR) - Math.sqrt(distSq(a.weaponX, a.weaponY, b.weaponX, b.weaponY));
+  const overlapWaBodyB = (waR + bR)  - Math.sqrt(distSq(a.weaponX, a.weaponY, b.px, b.py));
+  const overlapWbBodyA = (wbR + bR)  - Math.sqrt(distSq(b.weaponX, b.weaponY, a.px, a.py));
+  const overlapWaWb    = (waR + wbR) - Math.sqrt(distSq(a.weaponX, a.weaponY, b.weaponX, b.weaponY));
 
-  // Default: body_body. Only override when an overlap is POSITIVE (actual contact).
+  const window = contact.body === 0 ? 1 : contact.body;
+  const hitA = contact.weaponA !== null && contact.weaponA <= window;
+  const hitB = contact.weaponB !== null && contact.weaponB <= window;
+
+  // Default: body_body. Only override when a weapon actually made contact in time.
   let best: CollisionType = 'body_body';
-  let bestOverlap = 0;          // ← was -Infinity; fixed to prevent spurious weapon hits
+  let bestTime = Infinity;
+  let bestOverlap = -Infinity;
   let attackerIsA = true;
 
-  if (overlapWaBodyB > bestOverlap) {
-    bestOverlap = overlapWaBodyB;
+  const consider = (time: number | null, overlap: number): boolean => {
+    if (time === null || time > window) return false;
+    if (time > bestTime || (time === bestTime && overlap <= bestOverlap)) return false;
+    bestTime = time;
+    bestOverlap = overlap;
+    return true;
+  };
+
+  if (consider(contact.weaponA, overlapWaBodyB)) {
     best = 'weapon_body';
     attackerIsA = true;           // A's weapon → B's body
   }
-  if (overlapWbBodyA > bestOverlap) {
-    bestOverlap = overlapWbBodyA;
+  if (consider(contact.weaponB, overlapWbBodyA)) {
     best = 'weapon_body';
     attackerIsA = false;          // B's weapon → A's body
   }
-  if (overlapWaWb > bestOverlap) {
+  if (consider(contact.weapons, overlapWaWb)) {
     best = 'weapon_weapon';
     attackerIsA = true;           // doesn't matter for weapon_weapon
   }
@@ -78,8 +144,8 @@ function classifyCollision(
     if (rng() < Math.abs(assist)) {
       if (assist > 0) {
         // Nudge toward player being the weapon-attacker
-        if (a.isPlayer && overlapWaBodyB > 0) return { type: 'weapon_body', attackerIsA: true };
-        if (b.isPlayer && overlapWbBodyA > 0) return { type: 'weapon_body', attackerIsA: false };
+        if (a.isPlayer && hitA) return { type: 'weapon_body', attackerIsA: true };
+        if (b.isPlayer && hitB) return { type: 'weapon_body', attackerIsA: false };
       } else {
         // Nudge away from weapon hits (more body_body for player)
         return { type: 'body_body', attackerIsA: true };
@@ -90,70 +156,107 @@ function classifyCollision(
   return { type: best, attackerIsA };
 }
 
-export function processCollision(
-  pair: CollisionPair,
-  now: number,
-  params: OutcomeParams,
-  rng: () => number
-): DamageEvent[] {
-  const { a, b } = pair;
-  const key = pairKey(a, b);
+/**
+ * Resolves collisions for one round. Owns that round's pair cooldowns, so
+ * any number of rounds can run side by side in one process.
+ */
+export class CombatResolver {
+  readonly config: CombatConfig;
+  /** Multiplier on every hit, raised by the engine during sudden death. */
+  damageScale = 1;
+  private classify: CollisionClassifier;
+  private pairCooldowns = new Map<string, number>();
 
-  const last = pairCooldowns.get(key) ?? 0;
-  if (now - last < COOLDOWN_MS) return [];
-  pairCooldowns.set(key, now);
+  constructor(config: CombatConfig = DEFAULT_COMBAT_CONFIG, classify: CollisionClassifier = classifyCollision) {
+    this.config   = config;
+    this.classify = classify;
+  }
 
-  const { type, attackerIsA } = classifyCollision(a, b, params, rng);
-  if (type === 'none' || type === 'weapon_weapon') return [];
+  /** Forget every cooldown, e.g. before reusing the resolver. */
+  reset(): void {
+    this.pairCooldowns.clear();
+    this.damageScale = 1;
+  }
 
-  const events: DamageEvent[] = [];
+  processCollision(
+    pair: CollisionPair,
+    now: number,
+    params: OutcomeParams,
+    rng: () => number
+  ): DamageEvent[] {
+    const { a, b } = pair;
+    const key = `${Math.min(a.id, b.id)}_${Math.max(a.id, b.id)}`;
 
-  if (type === 'weapon_body') {
-    // Correctly assign attacker/victim based on which weapon actually hit which body
-    const attacker = attackerIsA ? a : b;
-    const victim   = attackerIsA ? b : a;
+    const cooldown = Math.max(this.config.cooldownMs, a.stats.cooldownMs, b.stats.cooldownMs);
+    const last = this.pairCooldowns.get(key) ?? 0;
+    if (now - last < cooldown) return [];
+    this.pairCooldowns.set(key, now);
 
-    let dmg = Math.max(1, Math.min(40, 25 + params.playerDealBonusDamage * (attacker.isPlayer ? 1 : 0)));
-    if (victim.isPlayer) {
-      dmg = Math.max(1, dmg + params.playerTakeDamageDelta);
-    }
-    events.push({ attacker, victim, type, damage: dmg });
+    const { type, attackerIsA } = this.classify(pair, params, rng);
+    if (type === 'none' || type === 'weapon_weapon') return [];
 
-  } else if (type === 'body_body') {
-    const dmg = Math.round(Math.max(1, Math.min(25, 10 + params.playerTakeDamageDelta * 0.5)));
-    events.push({ attacker: a, victim: b, type, damage: dmg });
-    events.push({ attacker: b, victim: a, type, damage: dmg });
-  }
+    // Allies only hurt each other as far as the friendly-fire rules allow
+    const ff = a.team === b.team
+      ? (type === 'weapon_body' ? this.config.friendlyFire.weaponBody : this.config.friendlyFire.bodyBody)
+      : 1;
+    if (ff <= 0) return [];
 
-  return events;
-}
+    const t = this.config.damage;
+    const events: DamageEvent[] = [];
 
-/**
- * Apply damage events to warriors, honouring booster effects.
- * Shield negates the next hit to player then expires.
- * Glove adds +10 to the next player weapon hit then expires.
- */
-export function applyDamageEvents(events: DamageEvent[]): DamageEvent[] {
-  const applied: DamageEvent[] = [];
+    if (type === 'weapon_body') {
+      // Correctly assign attacker/victim based on which weapon actually hit which body
+      const attacker = attackerIsA ? a : b;
+      const victim   = attackerIsA ? b : a;
 
-  for (const ev of events) {
-    let dmg = ev.damage;
+      const bonus = attacker.isPlayer ? params.playerDealBonusDamage : 0;
+      let dmg = Math.max(t.minDamage, Math.min(t.weaponBodyMax, attacker.stats.damage + bonus));
+      if (victim.isPlayer) {
+        dmg = Math.max(t.minDamage, dmg + params.playerTakeDamageDelta);
+      }
+      if (ff < 1) dmg = Math.max(t.minDamage, Math.round(dmg * ff));
+      if (this.damageScale > 1) dmg = Math.round(dmg * this.damageScale);
+      events.push({ attacker, victim, type, damage: dmg });
 
-    // Shield: negate next incoming damage to player
-    if (ev.victim.isPlayer && ev.victim.boosterEffect === 'shield') {
-      ev.victim.boosterEffect = 'none';
-      continue;
+    } else if (type === 'body_body') {
+      let dmg = Math.round(Math.max(t.minDamage, Math.min(t.bodyBodyMax, t.bodyBody + params.playerTakeDamageDelta * 0.5)));
+      if (ff < 1) dmg = Math.max(t.minDamage, Math.round(dmg * ff));
+      if (this.damageScale > 1) dmg = Math.round(dmg * this.damageScale);
+      events.push({ attacker: a, victim: b, type, damage: dmg });
+      events.push({ attacker: b, victim: a, type, damage: dmg });
     }
 
-    // Glove: +10 on next player weapon hit
-    if (ev.attacker.isPlayer && ev.attacker.boosterEffect === 'glove' && ev.type === 'weapon_body') {
-      dmg += 10;
-      ev.attacker.boosterEffect = 'none';
+    return events;
+  }
+
+  /**
+   * Apply damage events to warriors through their booster hooks: the
+   * victim's incoming hooks first (a block is reported via onBlocked),
+   * then the attacker's outgoing ones. Damage the hooks send back is
+   * applied and returned after the hit that caused it.
+   */
+  applyDamageEvents(
+    events: DamageEvent[],
+    onBlocked?: (ev: DamageEvent) => void
+  ): DamageEvent[] {
+    const applied: DamageEvent[] = [];
+
+    for (const ev of events) {
+      const incoming = adjustIncoming(ev);
+      if (incoming <= 0) {
+        onBlocked?.(ev);
+        continue;
+      }
+      const hit = { ...ev, damage: adjustOutgoing({ ...ev, damage: incoming }, this.config.damage) };
+
+      hit.victim.takeDamage(hit.damage);
+      applied.push(hit);
+      for (const answer of notifyHit(hit)) {
+        answer.victim.takeDamage(answer.damage);
+        applied.push(answer);
+      }
     }
 
-    ev.victim.takeDamage(dmg);
-    applied.push({ ...ev, damage: dmg });
+    return applied;
   }
-
-  return applied;
 }
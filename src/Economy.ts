@@ -1,52 +1,369 @@
 import type { DamageEvent } from './Combat';
+import { PLAYER_TEAM } from './Warrior';
+import type { RoundEvents } from './RoundEvents';
+import type { TeamLayout } from './RoundEngine';
+import type { TournamentStatus } from './Tournament';
+import { BoosterType, BOOSTERS, boosterCost } from './Boosters';
+import type { Ledger, TransactionDetail } from './Ledger';
+import {
+  CurrencyConfig, DEFAULT_CURRENCY, Minor, scaleMinor, toMajor, toMinor,
+} from './Money';
 
+/** Reference stake: paytable amounts are quoted at it and scale with stake / BET_AMOUNT. */
 export const BET_AMOUNT     = 10;
-export const BOOSTER_COST   = 1;
 export const WEAPON_REWARD  = 1.0;   // was 0.8
 export const DAMAGE_PENALTY = 0.8;   // was 1.0
 export const WIN_MULTIPLIER = 1.5;
 export const WIN_BONUS_NET  = BET_AMOUNT * 0.5; // +5 FUN guaranteed on any win
+export const ALLY_REWARD_SHARE = 0.5; // of WEAPON_REWARD, for an ally's hit on an enemy
 
+/** Stakes the player can pick from, in FUN. */
+export const STAKE_LADDER: readonly number[] = [1, 2, 5, 10, 20, 50, 100];
+
+/** Tunable paytable row — see CalibrationCli for fitting it to a target RTP. */
+export interface PayoutConfig {
+  weaponReward: number;
+  damagePenalty: number;
+  winMultiplier: number;
+  /** Guaranteed net profit added on any win. */
+  winBonus: number;
+  /** Share of weaponReward credited when an ally lands a weapon hit on an enemy. */
+  allyRewardShare: number;
+}
+
+export const DEFAULT_PAYOUT: PayoutConfig = {
+  weaponReward:  WEAPON_REWARD,
+  damagePenalty: DAMAGE_PENALTY,
+  winMultiplier: WIN_MULTIPLIER,
+  winBonus:      WIN_BONUS_NET,
+  allyRewardShare: ALLY_REWARD_SHARE,
+};
+
+/** One payout row per mode. */
+export interface Paytable {
+  /**
+   * Free-for-all rows keyed by warriors in the round. A row covers its own
+   * field size and every larger one up to the next key, so battle royale
+   * sizes between the keys are paid by the row below them.
+   */
+  ffa: Record<number, PayoutConfig>;
+  teams: Record<Exclude<TeamLayout, 'ffa'>, PayoutConfig>;
+}
+
+/**
+ * Bigger fields are harder to win, so they pay more for it, and the team
+ * layouts less. The win bonus carries almost all of a round's return; each
+ * row's is set so every mode returns about what 1vs1 does at the default
+ * fixed 80% strategy.
+ */
+export const DEFAULT_PAYTABLE: Paytable = {
+  ffa: {
+    2:  DEFAULT_PAYOUT,
+    3:  { ...DEFAULT_PAYOUT, winMultiplier: 1.75, winBonus: 9.5 },
+    4:  { ...DEFAULT_PAYOUT, winMultiplier: 2,    winBonus: 12 },
+    16: { ...DEFAULT_PAYOUT, winMultiplier: 2.5,  winBonus: 50 },
+    32: { ...DEFAULT_PAYOUT, winMultiplier: 2.5,  winBonus: 115 },
+    48: { ...DEFAULT_PAYOUT, winMultiplier: 2.5,  winBonus: 210 },
+    64: { ...DEFAULT_PAYOUT, winMultiplier: 2.5,  winBonus: 300 },
+  },
+  teams: {
+    '2v2':   { ...DEFAULT_PAYOUT, winBonus: 3 },
+    'ally2': { ...DEFAULT_PAYOUT, winMultiplier: 1.25, winBonus: 1 },
+  },
+};
+
+/** A paytable paying every mode by the same row. */
+export function uniformPaytable(payout: PayoutConfig): Paytable {
+  return { ffa: { 2: payout }, teams: { '2v2': payout, 'ally2': payout } };
+}
+
+/** The paytable row a round of `mode` warriors in `teams` is paid by. */
+export function payoutFor(paytable: Paytable, mode: number, teams: TeamLayout = 'ffa'): PayoutConfig {
+  if (teams !== 'ffa') return paytable.teams[teams];
+  const keys = Object.keys(paytable.ffa).map(Number).sort((a, b) => a - b);
+  const key = keys.filter(k => k <= mode).pop() ?? keys[0];
+  if (key === undefined) throw new Error('Empty paytable');
+  return paytable.ffa[key];
+}
+
+/**
+ * Money of one tournament run. The buy-in covers every stage, so bracket
+ * rounds take no bet and pay nothing per hit; only the prize pays out.
+ */
+export interface TournamentAccount {
+  buyIn: number;
+  /** Boosters bought in the tournament's rounds, before or mid-round. */
+  boosterSpend: number;
+}
+
+export interface TournamentSettlement extends TournamentAccount {
+  payout: number;
+  /** payout − buyIn − boosterSpend. */
+  net: number;
+}
+
+/** A round's paytable amounts in minor units, scaled to its stake. */
+interface RoundRates {
+  hitReward: Minor;
+  allyHitReward: Minor;
+  damagePenalty: Minor;
+  winBonus: Minor;
+}
+
+/**
+ * Every amount is held as an integer count of the currency's minor units,
+ * so a session's balance is exact however many rounds it runs; fractions
+ * from stake scaling and the win multiplier are rounded by the currency's
+ * policy as they arise. The public amounts are those minor units read back
+ * in major units.
+ */
 export class Economy {
-  balance: number;
-  roundProfit: number = 0;
-  finalProfit: number = 0;
+  readonly paytable: Paytable;
+  readonly currency: CurrencyConfig;
+  /** Row of the paytable for the round being played. */
+  payout: PayoutConfig;
+  /** Stake for the next round; one of STAKE_LADDER in the live game. */
+  stake: number = BET_AMOUNT;
+  /** Where every balance movement is recorded, if anywhere. */
+  readonly ledger: Ledger | null;
+
+  private balanceMinor: Minor;
+  private roundProfitMinor: Minor = 0;
+  private finalProfitMinor: Minor = 0;
+  private sideBetStakeMinor: Minor = 0;
+  private sideBetReturnMinor: Minor = 0;
+  private tournamentMinor: { buyIn: Minor; boosterSpend: Minor } | null = null;
+  private rates: RoundRates;
+  /** Sequence number of the current or last round, as the ledger counts them. */
+  private roundNo: number;
+  /** The round's hit rewards and damage penalties so far, for the ledger's summary. */
+  private roundRewards: Minor = 0;
+  private roundPenalties: Minor = 0;
+
+  /**
+   * With a ledger the balance is rebuilt from it, and an empty ledger is
+   * opened with a deposit of `initialBalance`.
+   */
+  constructor(
+    initialBalance = 1000,
+    paytable: Paytable = DEFAULT_PAYTABLE,
+    ledger: Ledger | null = null,
+    currency: CurrencyConfig = DEFAULT_CURRENCY,
+  ) {
+    this.paytable = paytable;
+    this.currency = currency;
+    this.payout = payoutFor(paytable, 2);
+    this.rates = this.ratesFor(this.payout, BET_AMOUNT);
+    this.ledger = ledger;
+    this.roundNo = ledger?.lastRound ?? 0;
+    if (ledger && !ledger.isEmpty) {
+      this.balanceMinor = this.minor(ledger.balance);
+    } else {
+      this.balanceMinor = this.minor(initialBalance);
+      ledger?.append({ type: 'deposit' }, this.major(this.balanceMinor), null, this.balance);
+    }
+  }
+
+  get balance(): number {
+    return this.major(this.balanceMinor);
+  }
 
-  constructor(initialBalance = 1000) {
-    this.balance = initialBalance;
+  /** Live profit of the round: hit rewards less damage penalties. */
+  get roundProfit(): number {
+    return this.major(this.roundProfitMinor);
   }
 
-  canAffordRound(hasBooster: boolean): boolean {
-    const cost = BET_AMOUNT + (hasBooster ? BOOSTER_COST : 0);
-    return this.balance >= cost;
+  /** What the round settled for, win multiplier and bonus included. */
+  get finalProfit(): number {
+    return this.major(this.finalProfitMinor);
   }
 
-  startRound(hasBooster: boolean): void {
-    const cost = BET_AMOUNT + (hasBooster ? BOOSTER_COST : 0);
-    this.balance -= cost;
-    this.roundProfit = 0;
-    this.finalProfit = 0;
+  /** Side bets staked on the current round, and what they have returned so far. */
+  get sideBetStake(): number {
+    return this.major(this.sideBetStakeMinor);
+  }
+
+  get sideBetReturn(): number {
+    return this.major(this.sideBetReturnMinor);
+  }
+
+  /** The tournament being played, or null between tournaments. */
+  get tournament(): TournamentAccount | null {
+    const t = this.tournamentMinor;
+    return t && { buyIn: this.major(t.buyIn), boosterSpend: this.major(t.boosterSpend) };
+  }
+
+  /** Stake taken at the start of a round: the bet, or nothing inside a tournament. */
+  get roundBet(): number {
+    return this.tournamentMinor ? 0 : this.stake;
+  }
+
+  setStake(stake: number): void {
+    if (!(stake > 0)) throw new Error(`Stake must be positive, got ${stake}`);
+    this.stake = stake;
+  }
+
+  /**
+   * `boosterCost` is the price of the booster bought with the bet, if any;
+   * `sideBetStake` the total of the side bets placed alongside it.
+   */
+  canAffordRound(boosterCost = 0, sideBetStake = 0): boolean {
+    return this.balanceMinor >= this.minor(this.roundBet) + this.minor(boosterCost) + this.minor(sideBetStake);
+  }
+
+  /**
+   * Take the bet, and the booster bought with it, for a round and price it
+   * from its mode's paytable row.
+   */
+  startRound(mode: number, teams: TeamLayout, booster: BoosterType | 'none' = 'none'): void {
+    const bet  = this.minor(this.roundBet);
+    const cost = this.minor(boosterCost(booster));
+    this.payout = payoutFor(this.paytable, mode, teams);
+    this.rates = this.ratesFor(this.payout, this.stake);
+    this.roundNo++;
+    this.balanceMinor -= bet;
+    this.record({ type: 'bet', stake: this.roundBet }, -bet);
+    this.balanceMinor -= cost;
+    if (booster !== 'none') this.record({ type: 'booster', booster, midRound: false }, -cost);
+    if (this.tournamentMinor) this.tournamentMinor.boosterSpend += cost;
+    this.roundProfitMinor = 0;
+    this.finalProfitMinor = 0;
+    this.roundRewards = 0;
+    this.roundPenalties = 0;
+    this.sideBetStakeMinor = 0;
+    this.sideBetReturnMinor = 0;
+  }
+
+  /** Take the stake of `bets` side bets placed on the round about to start. */
+  placeSideBets(stake: number, bets: number): void {
+    const amount = this.minor(stake);
+    if (amount > this.balanceMinor) throw new Error('Cannot afford the side bets');
+    this.balanceMinor -= amount;
+    this.sideBetStakeMinor += amount;
+    this.record({ type: 'side_bet', bets }, -amount);
+  }
+
+  /** Credit what the round's side bets returned (stake included). */
+  settleSideBets(returned: number): void {
+    const amount = this.minor(returned);
+    this.balanceMinor += amount;
+    this.sideBetReturnMinor += amount;
+    this.record({ type: 'side_bet_return' }, amount);
+  }
+
+  /** Pay for a booster bought mid-round. Returns false if the balance doesn't cover it. */
+  chargeBooster(type: BoosterType): boolean {
+    const cost = this.minor(BOOSTERS[type].cost);
+    if (this.balanceMinor < cost) return false;
+    this.balanceMinor -= cost;
+    this.record({ type: 'booster', booster: type, midRound: true }, -cost);
+    if (this.tournamentMinor) this.tournamentMinor.boosterSpend += cost;
+    return true;
+  }
+
+  canEnterTournament(buyIn: number): boolean {
+    return !this.tournamentMinor && this.balanceMinor >= this.minor(buyIn);
+  }
+
+  enterTournament(buyIn: number): void {
+    if (this.tournamentMinor) throw new Error('Already in a tournament');
+    const amount = this.minor(buyIn);
+    this.balanceMinor -= amount;
+    this.record({ type: 'tournament_buy_in' }, -amount, null);
+    this.tournamentMinor = { buyIn: amount, boosterSpend: 0 };
+  }
+
+  /** Pay out a finished or cashed-out tournament (0 when it was lost) and close its account. */
+  settleTournament(payout: number, status: TournamentStatus): TournamentSettlement {
+    const t = this.tournamentMinor;
+    if (!t) throw new Error('Not in a tournament');
+    const amount = this.minor(payout);
+    this.tournamentMinor = null;
+    this.balanceMinor += amount;
+    this.record({ type: 'tournament_payout', status }, amount, null);
+    return {
+      buyIn:        this.major(t.buyIn),
+      boosterSpend: this.major(t.boosterSpend),
+      payout:       this.major(amount),
+      net:          this.major(amount - t.buyIn - t.boosterSpend),
+    };
+  }
+
+  /**
+   * Follow a round's events: damage moves the live profit and round_end
+   * settles it. Subscribe before anything that reads the profit.
+   */
+  subscribe(events: RoundEvents): () => void {
+    const offs = [
+      events.on('damage',    (ev) => this.processDamageEvent(ev)),
+      events.on('round_end', (ev) => this.finaliseRound(ev.outcome === 'win')),
+    ];
+    return () => offs.forEach(off => off());
   }
 
   processDamageEvent(ev: DamageEvent): void {
-    if (ev.attacker.isPlayer && ev.type === 'weapon_body') {
-      this.roundProfit += WEAPON_REWARD;
+    // Bracket rounds are paid by the tournament prize, not per hit
+    if (this.tournamentMinor) return;
+
+    // Only hits on enemies pay, whether the player or an ally landed them
+    if (ev.type === 'weapon_body' && ev.victim.team !== PLAYER_TEAM) {
+      if (ev.attacker.isPlayer) {
+        this.roundRewards     += this.rates.hitReward;
+        this.roundProfitMinor += this.rates.hitReward;
+      } else if (ev.attacker.team === PLAYER_TEAM) {
+        this.roundRewards     += this.rates.allyHitReward;
+        this.roundProfitMinor += this.rates.allyHitReward;
+      }
     }
     if (ev.victim.isPlayer) {
-      this.roundProfit -= DAMAGE_PENALTY;
+      this.roundPenalties   += this.rates.damagePenalty;
+      this.roundProfitMinor -= this.rates.damagePenalty;
     }
   }
 
   finaliseRound(win: boolean): void {
+    // A bracket round only moves the tournament on; the prize settles it
+    if (this.tournamentMinor) return;
+
     // Apply multiplier only to positive in-round profit
-    const profitPart = (win && this.roundProfit > 0)
-      ? this.roundProfit * WIN_MULTIPLIER
-      : this.roundProfit;
+    const profitPart = (win && this.roundProfitMinor > 0)
+      ? scaleMinor(this.roundProfitMinor, this.payout.winMultiplier, this.currency)
+      : this.roundProfitMinor;
 
     // Guaranteed win bonus ensures finalProfit is positive on a win
-    this.finalProfit = win ? profitPart + WIN_BONUS_NET : profitPart;
+    this.finalProfitMinor = win ? profitPart + this.rates.winBonus : profitPart;
+
+    // Settled in two steps, hits then win, so each ledger entry has its own
+    // balance; the floor at zero comes off the hits' step
+    const winPart = this.finalProfitMinor - this.roundProfitMinor;
+    const hits = Math.max(this.roundProfitMinor, -this.balanceMinor - winPart);
+    this.balanceMinor += hits;
+    this.record({ type: 'damage', rewards: this.major(this.roundRewards), penalties: this.major(this.roundPenalties) }, hits);
+    this.balanceMinor += winPart;
+    if (win) this.record({ type: 'win_payout', multiplier: this.payout.winMultiplier, bonus: this.major(this.rates.winBonus) }, winPart);
+  }
+
+  /** A paytable row's per-event amounts at `stake`, each rounded once for the whole round. */
+  private ratesFor(p: PayoutConfig, stake: number): RoundRates {
+    const scale = stake / BET_AMOUNT;
+    return {
+      hitReward:     this.minor(p.weaponReward * scale),
+      allyHitReward: this.minor(p.weaponReward * p.allyRewardShare * scale),
+      damagePenalty: this.minor(p.damagePenalty * scale),
+      winBonus:      this.minor(p.winBonus * scale),
+    };
+  }
+
+  private minor(major: number): Minor {
+    return toMinor(major, this.currency);
+  }
+
+  private major(minor: Minor): number {
+    return toMajor(minor, this.currency);
+  }
 
-    this.balance += this.finalProfit;
-    if (this.balance < 0) this.balance = 0;
+  /** Log `amount` minor units, and the balance it left, to the ledger. Call after moving the balance. */
+  private record(detail: TransactionDetail, amount: Minor, round: number | null = this.roundNo): void {
+    if (amount !== 0) this.ledger?.append(detail, this.major(amount), round, this.balance);
   }
 }
@@ -0,0 +1,33 @@
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * Minimal typed pub/sub. `M` maps event names to payload types.
+ * Handlers run synchronously, in the order they subscribed.
+ */
+export class EventBus<M extends object> {
+  private handlers: { [K in keyof M]?: EventHandler<M[K]>[] } = {};
+
+  /** Subscribe to an event. Returns an unsubscribe function. */
+  on<K extends keyof M>(type: K, handler: EventHandler<M[K]>): () => void {
+    (this.handlers[type] ??= []).push(handler);
+    return () => this.off(type, handler);
+  }
+
+  off<K extends keyof M>(type: K, handler: EventHandler<M[K]>): void {
+    const list = this.handlers[type];
+    if (!list) return;
+    const i = list.indexOf(handler);
+    if (i >= 0) list.splice(i, 1);
+  }
+
+  emit<K extends keyof M>(type: K, payload: M[K]): void {
+    const list = this.handlers[type];
+    if (!list) return;
+    // Copy so handlers can unsubscribe while we iterate
+    for (const handler of list.slice()) handler(payload);
+  }
+
+  clear(): void {
+    this.handlers = {};
+  }
+}
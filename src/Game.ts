@@ -1,31 +1,53 @@
 import * as PIXI from 'pixi.js';
-import { Arena } from './Arena';
+import { Arena, ArenaLayoutName } from './Arena';
 import {
-  Warrior, WarriorColor, WARRIOR_RADIUS, WEAPON_RADIUS,
-  WARRIOR_COLORS, WARRIOR_LABELS, WEAPON_OFFSET,
+  Warrior, WARRIOR_RADIUS, PLAYER_TEAM,
 } from './Warrior';
+import { Economy, BET_AMOUNT, DEFAULT_PAYTABLE, payoutFor } from './Economy';
+import { CombatResolver } from './Combat';
+import { BoosterType, PickupRule, BOOSTERS, boosterCost } from './Boosters';
+import { Rng, parseSeed } from './Rng';
+import { OutcomeController } from './OutcomeController';
 import {
-  integrateMotion, resolveWalls, resolveWarriorCollisions,
-} from './Physics';
+  RoundEngine, TeamLayout, WARRIOR_COLORS_LIST, FIXED_DT, ARENA_SIZE, ARENA_ORIGIN,
+} from './RoundEngine';
 import {
-  processCollision, applyDamageEvents, clearCooldowns,
-} from './Combat';
-import { Economy, BET_AMOUNT, BOOSTER_COST } from './Economy';
+  RoundRecorder, RoundRecording, RoundReplayer, parseRecording,
+} from './Replay';
 import {
-  BoosterPickup, BoosterType, spawnBooster, checkPickup, applyBooster,
-} from './Boosters';
-import { Rng } from './Rng';
-import { OutcomeController, OutcomeParams } from './OutcomeController';
-import { Ui } from './Ui';
+  Tournament, CarryOver, DEFAULT_TOURNAMENT, stagePrize, stageLabel,
+} from './Tournament';
+import {
+  SideBetBook, SideBetPick, SIDE_BET_STAKE, sideBetOptions,
+} from './SideBets';
+import { Ledger } from './Ledger';
+import { LimitSettings, SessionLimits, describeBlock, formatDuration } from './Limits';
+import {
+  Autoplay, AutoplayConfig, AutoplayStop, AUTOPLAY_GAP_MS, AUTOPLAY_STOP_LABELS,
+} from './Autoplay';
+import { formatAmount, formatMoney } from './Money';
+import { ProtocolError, RoundState } from './Protocol';
+import { ServerClient, SERVER_SESSION_KEY } from './ServerClient';
+import { Ui, BracketView } from './Ui';
+
+/** Ring colours for enemy teams in team modes. */
+const ENEMY_TEAM_RINGS = [0xff5050, 0xffa040, 0x40c0ff];
 
 type GameState = 'ready' | 'running' | 'win' | 'lose';
 
-const WARRIOR_COLORS_LIST: WarriorColor[] = ['red', 'blue', 'green', 'yellow'];
-// ≈3× original baseline (252 × 1.5 = 378)
-const WARRIOR_SPEED = 378; // px/s
-const FIXED_DT = 1 / 60;
+/** "you", or the warrior's side and archetype, e.g. "enemy Axe (blue)". */
+function describeWarrior(w: Warrior): string {
+  if (w.isPlayer) return 'you';
+  const side = w.team === PLAYER_TEAM ? 'ally' : 'enemy';
+  return `${side} ${w.stats.name}${w.color ? ` (${w.color})` : ` #${w.id}`}`;
+}
 
-const ARENA_SIZE = 500;
+/** Add an arena's wall outline to the current path of `g`. */
+function traceOutline(g: PIXI.Graphics, a: Arena): void {
+  if (a.shape === 'circle') g.circle(a.cx, a.cy, a.radius);
+  else if (a.shape === 'octagon') g.poly(a.octagonPoints());
+  else g.rect(a.left, a.top, a.right - a.left, a.bottom - a.top);
+}
 
 interface HitFlash {
   warrior: Warrior;
@@ -38,21 +60,54 @@ interface FloatingText {
   life: number;
 }
 
+/** A session on the game server, and the round of it being animated. */
+interface RemoteSession {
+  sessionId: string;
+  /** The server's balance, with the current round settled. */
+  balance: number;
+  round: RoundState | null;
+  /** A request is on its way; a running round holds still meanwhile. */
+  busy: boolean;
+}
+
 export class Game {
   private app: PIXI.Application;
   private arena: Arena;
   private stage!: PIXI.Container;
   private arenaGfx!: PIXI.Graphics;
+  /** Sudden-death wall, redrawn whenever the round's arena shrinks. */
+  private boundaryGfx!: PIXI.Graphics;
+  private drawnBoundary: Arena | null = null;
   private warriorLayer!: PIXI.Container;
   private boosterLayer!: PIXI.Container;
   private effectLayer!: PIXI.Container;
 
-  private warriors: Warrior[] = [];
-  private boosterPickup: BoosterPickup | null = null;
+  /** Headless round state — null until the first START. */
+  private round: RoundEngine | null = null;
+  /** Set while a recorded round is being played back instead of a live one. */
+  private replayer: RoundReplayer | null = null;
+  private recorder: RoundRecorder | null = null;
+  private lastRecording: RoundRecording | null = null;
+  /** The current or last bracket; its stages override the selected mode while it runs. */
+  private tournament: Tournament | null = null;
+  /** Side bets of the current or last live round. */
+  private sideBets: SideBetBook | null = null;
   private economy: Economy;
-  private rng!: Rng;
+  private limits: SessionLimits;
+  /** Time since the session summary was last redrawn. */
+  private limitsRefreshMs = 0;
+  private coolingOff = false;
+  /** The current or last autoplay run. */
+  private autoplay: Autoplay | null = null;
+  /** Balance before the autoplayed round now running, and time waited since the last one ended. */
+  private autoplayBalance = 0;
+  private autoplayGapMs = 0;
   private outcomeCtrl: OutcomeController;
-  private outcomeParams!: OutcomeParams;
+  /** Set when rounds are decided and settled on a game server instead of here. */
+  private server: ServerClient | null;
+  /** The server session, once connected. */
+  private remote: RemoteSession | null = null;
+  private connecting = false;
   private ui: Ui;
 
   private state: GameState = 'ready';
@@ -80,24 +135,36 @@ export class Game {
 
   private selectedWarriorIdx = 0;
   private selectedMode = 4;
+  private selectedTeams: TeamLayout = 'ffa';
+  private selectedPickupRule: PickupRule = 'player';
   private selectedBoosterType: BoosterType | 'none' = 'none';
+  private selectedCarryOver: CarryOver = 'none';
+  private selectedSideBets: SideBetPick[] = [];
   private seedOverride: string = '';
 
-  private boostersBought: Record<BoosterType, number> = { burger: 0, glove: 0, shield: 0 };
-
-  constructor(app: PIXI.Application) {
+  constructor(app: PIXI.Application, server: ServerClient | null = null) {
     this.app = app;
-    this.economy = new Economy(1000);
+    this.server = server;
+    this.economy = new Economy(1000, DEFAULT_PAYTABLE, Ledger.load(window.localStorage));
+    this.limits = SessionLimits.load(window.localStorage, this.economy.currency);
     this.outcomeCtrl = new OutcomeController();
     this.ui = new Ui();
 
-    const offsetX = (app.screen.width  - ARENA_SIZE) / 2;
-    const offsetY = (app.screen.height - ARENA_SIZE) / 2;
-    this.arena = new Arena(offsetX, offsetY, ARENA_SIZE);
+    this.arena = new Arena(ARENA_ORIGIN, ARENA_ORIGIN, ARENA_SIZE);
 
     this.buildStage();
     this.setupUi();
     this.syncUi();
+
+    const ledger = this.economy.ledger!;
+    this.ui.updateHistory(ledger.transactions);
+    ledger.subscribe((tx) => {
+      this.limits.record(tx);
+      this.ui.updateHistory(ledger.transactions);
+    });
+    this.ui.setLimits(this.limits.settings);
+    this.refreshLimits();
+    if (server) this.connectServer();
   }
 
   private buildStage(): void {
@@ -106,6 +173,9 @@ export class Game {
     this.arenaGfx = new PIXI.Graphics();
     this.stage.addChild(this.arenaGfx);
 
+    this.boundaryGfx = new PIXI.Graphics();
+    this.stage.addChild(this.boundaryGfx);
+
     this.boosterLayer = new PIXI.Container();
     this.stage.addChild(this.boosterLayer);
 
@@ -118,13 +188,33 @@ export class Game {
     this.drawArena();
   }
 
+  /** Swap the arena layout between rounds; the placement stays the same. */
+  private setArenaLayout(layout: ArenaLayoutName): void {
+    if (layout === this.arena.layoutName) return;
+    this.arena = new Arena(this.arena.x, this.arena.y, this.arena.size, layout);
+    this.drawArena();
+    this.drawBoundary(null);
+  }
+
   private drawArena(): void {
     const g = this.arenaGfx;
+    const a = this.arena;
     g.clear();
-    g.rect(this.arena.x, this.arena.y, this.arena.size, this.arena.size);
+
+    traceOutline(g, a);
     g.fill({ color: 0x0d0d1a });
-    g.rect(this.arena.x, this.arena.y, this.arena.size, this.arena.size);
+    traceOutline(g, a);
     g.stroke({ color: 0x4444aa, width: 3 });
+
+    for (const o of a.obstacles) {
+      if (o.kind === 'circle') g.circle(o.x, o.y, o.r);
+      else g.rect(o.x, o.y, o.w, o.h);
+      g.fill({ color: 0x2a2a4e });
+      g.stroke({ color: 0x6666cc, width: 2 });
+    }
+
+    // Corner marks only make sense on the square
+    if (a.shape !== 'square') return;
     const c = 14;
     [[0, 0], [1, 0], [0, 1], [1, 1]].forEach(([cx, cy]) => {
       const bx = this.arena.x + cx! * this.arena.size;
@@ -138,112 +228,506 @@ export class Game {
     });
   }
 
+  /** Sudden-death wall, with the ground it has given up washed red. */
+  private drawBoundary(a: Arena | null): void {
+    const g = this.boundaryGfx;
+    g.clear();
+    this.drawnBoundary = a;
+    if (!a || a.scale >= 1) return;
+
+    traceOutline(g, this.arena);
+    g.fill({ color: 0xff2020, alpha: 0.12 });
+    traceOutline(g, a);
+    g.cut();
+    traceOutline(g, a);
+    g.stroke({ color: 0xff4040, width: 3 });
+  }
+
   private setupUi(): void {
     this.ui.init({
-      onWarriorSelect:      (idx)  => { this.selectedWarriorIdx = idx; },
-      onModeSelect:         (mode) => { this.selectedMode = mode; },
-      onBoosterSelect:      (b)    => { this.selectedBoosterType = b; },
+      onWarriorSelect:      (idx)  => { this.selectedWarriorIdx = idx; this.refreshSideBets(); },
+      onArenaSelect:        (layout) => { this.setArenaLayout(layout); },
+      onPickupRuleChange:   (rule) => { this.selectedPickupRule = rule; },
+      onModeSelect:         (mode, teams) => {
+        this.selectedMode = mode;
+        this.selectedTeams = teams;
+        this.refreshPaytable();
+        this.refreshSideBets();
+      },
+      onStakeChange:        (stake) => { this.setStake(stake); },
+      onBoosterSelect:      (b)    => { this.selectedBoosterType = b; this.refreshSideBets(); },
       onWinProbChange:      (p)    => { this.outcomeCtrl.setWinProbability(p); },
+      onStrategyChange:     (name) => { this.outcomeCtrl.useStrategy(name); },
       onSeedChange:         (s)    => { this.seedOverride = s; },
       onSpeedupToggle:      ()     => { this.toggleSpeedup(); },
       onMidRoundBoosterBuy: (b)    => { this.buyBoosterMidRound(b); },
+      onReplayLast:         ()     => { if (this.lastRecording) this.startReplay(this.lastRecording); },
+      onReplaySave:         ()     => { this.saveLastRecording(); },
+      onReplayLoad:         (json) => { this.loadRecording(json); },
+      onCarryOverChange:    (c)    => { this.selectedCarryOver = c; },
+      onTournamentEnter:    ()     => { this.enterTournament(); },
+      onTournamentCashOut:  ()     => { this.cashOutTournament(); },
+      onSideBetsChange:     (p)    => { this.selectedSideBets = p; },
+      onHistoryExport:      (fmt)  => { this.exportHistory(fmt); },
+      onLimitsChange:       (l)    => { this.setLimits(l); },
+      onCoolOff:            (h)    => { this.limits.startCoolOff(h); this.refreshLimits(); },
+      onRealityCheckClose:  (brk)  => { this.closeRealityCheck(brk); },
+      onAutoplayStart:      (cfg)  => { this.startAutoplay(cfg); },
+      onAutoplayStop:       ()     => { this.stopAutoplay('player'); },
       onStart: () => {
+        if (this.autoplay?.running) return;
         if (this.state === 'ready') this.startRound();
         else if (this.state === 'win' || this.state === 'lose') this.resetToReady();
       },
-    });
+    }, this.economy.currency);
   }
 
   private syncUi(): void {
-    this.ui.updateBalance(this.economy.balance);
+    this.ui.updateBalance(this.balance);
     this.ui.updateProfit(0);
     this.ui.setStatus('ready');
     this.ui.hideFinalProfit();
-    this.ui.setStartButtonLabel('▶ START ROUND (10 FUN)', false);
-    this.ui.setRunningMode(false, this.economy.balance, false);
+    this.ui.showSideBetResult(null);
+    this.ui.setStartButtonLabel(this.startLabel(false), false);
+    this.ui.setRunningMode(false, this.balance, false);
+    this.ui.setTournamentBuyIn(DEFAULT_TOURNAMENT.buyIn);
+    this.ui.selectStake(this.economy.stake);
+    this.refreshPaytable();
+    this.refreshBracket();
+    this.refreshSideBets();
   }
 
-  startRound(): void {
-    const hasBooster = this.selectedBoosterType !== 'none';
-    if (!this.economy.canAffordRound(hasBooster)) return;
+  private setStake(stake: number): void {
+    if (this.state === 'running') return;
+    this.economy.setStake(stake);
+    this.ui.selectStake(stake);
+    this.ui.setStartButtonLabel(this.startLabel(this.state !== 'ready'), false);
+    this.refreshPaytable();
+  }
+
+  /** What a hit dealt, a hit taken and a win pay at the selected mode and stake. */
+  private refreshPaytable(): void {
+    const p = payoutFor(this.economy.paytable, this.selectedMode, this.selectedTeams);
+    const fun = (x: number): string => formatAmount(x * this.economy.stake / BET_AMOUNT, this.economy.currency);
+    this.ui.setPaytableText(
+      `Hit +${fun(p.weaponReward)} · hurt −${fun(p.damagePenalty)} · win ×${p.winMultiplier} +${fun(p.winBonus)} ${this.economy.currency.code}`,
+    );
+  }
+
+  /** Side bets open for the selected setup; none while a bracket runs. */
+  private refreshSideBets(): void {
+    const options = this.tournament?.running ? [] : sideBetOptions(
+      this.selectedMode, this.selectedTeams, WARRIOR_COLORS_LIST[this.selectedWarriorIdx], this.selectedBoosterType,
+    );
+    this.ui.setSideBetOptions(options);
+  }
+
+  /** The balance on show between rounds: the server's, when playing on one. */
+  private get balance(): number {
+    return this.server ? this.remote?.balance ?? 0 : this.economy.balance;
+  }
 
-    const seed = this.seedOverride !== ''
-      ? parseInt(this.seedOverride) || (this.seedOverride.split('').reduce((a, c) => a * 31 + c.charCodeAt(0), 0))
-      : undefined;
-    this.rng = new Rng(seed);
-    this.ui.setSeed(String(this.rng.getSeed()));
+  private money(amount: number, signed = false): string {
+    return formatMoney(amount, this.economy.currency, signed);
+  }
 
-    this.outcomeParams = this.outcomeCtrl.sampleParams(this.rng);
-    this.economy.startRound(hasBooster);
-    clearCooldowns();
+  private startLabel(again: boolean): string {
+    const stage = this.tournament?.currentStage;
+    if (stage) return `▶ STAGE ${this.tournament!.stage + 1}: ${stageLabel(stage)}`;
+    const stake = this.economy.stake;
+    const code = this.economy.currency.code;
+    return again ? `▶ PLAY AGAIN (${stake} ${code})` : `▶ START ROUND (${stake} ${code})`;
+  }
 
-    this.boostersBought = { burger: 0, glove: 0, shield: 0 };
-    if (hasBooster) this.boostersBought[this.selectedBoosterType as BoosterType]++;
+  // ── History ────────────────────────────────────────────────────
 
-    this.spawnWarriors();
-    this.spawnBoosterPickup(this.selectedBoosterType);
+  private exportHistory(format: 'csv' | 'json'): void {
+    const ledger = this.economy.ledger!;
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') this.ui.downloadText(`ledger-${stamp}.csv`, ledger.toCsv(), 'text/csv');
+    else this.ui.downloadText(`ledger-${stamp}.json`, ledger.toJson());
+  }
+
+  // ── Limits ─────────────────────────────────────────────────────
+
+  private setLimits(settings: LimitSettings): void {
+    this.limits.setLimits(settings);
+    // Loosened limits wait for the next session, so show what is in force
+    this.ui.setLimits(this.limits.settings);
+    this.ui.setLimitNotice(null);
+    this.refreshLimits();
+  }
+
+  /**
+   * Whether the limits let a stake of `cost` through. If not, say why, and
+   * bring up the reality check when that is what's owed.
+   */
+  private allowStake(cost: number): boolean {
+    const block = this.limits.check(cost);
+    this.ui.setLimitNotice(block ? describeBlock(block) : null);
+    if (block?.reason === 'reality_check') this.showRealityCheck();
+    return block === null;
+  }
+
+  /** Redraw the session summary; bring up a due reality check between rounds. */
+  private refreshLimits(): void {
+    this.limits.refresh();
+    const { wagered, net } = this.limits;
+    const pending = Object.keys(this.limits.pending).length > 0 ? ' · looser limits tomorrow' : '';
+    this.ui.setLimitsText(
+      `Today ${formatDuration(this.limits.sessionMs)} played · wagered ${this.money(wagered)} · net ${this.money(net, true)}${pending}`,
+    );
+    // The cool-off notice stays up for as long as it lasts, then clears itself
+    const coolOff = this.limits.coolOffUntil;
+    if (coolOff !== null) this.ui.setLimitNotice(describeBlock({ reason: 'cool_off', until: coolOff }));
+    else if (this.coolingOff) this.ui.setLimitNotice(null);
+    this.coolingOff = coolOff !== null;
+    if (this.limits.realityCheckDue && this.state !== 'running' && !this.ui.isRealityCheckVisible) this.showRealityCheck();
+  }
+
+  private showRealityCheck(): void {
+    const { wagered, net } = this.limits;
+    this.ui.showRealityCheck(
+      `You have been playing for <strong>${formatDuration(this.limits.sessionMs)}</strong>.<br>` +
+      `Net result: <strong>${this.money(net, true)}</strong> on ${this.money(wagered)} wagered.`,
+    );
+  }
+
+  private closeRealityCheck(takeBreak: boolean): void {
+    this.limits.acknowledgeRealityCheck();
+    if (takeBreak) this.limits.startCoolOff(this.ui.selectedCoolOffHours);
+    this.ui.setLimitNotice(null);
+    this.refreshLimits();
+  }
+
+  // ── Autoplay ───────────────────────────────────────────────────
+
+  private startAutoplay(config: AutoplayConfig): void {
+    if (this.server || this.state === 'running' || this.autoplay?.running) return;
+    this.autoplay = new Autoplay(config, this.economy.currency);
+    this.ui.setAutoplayActive(true);
+    this.nextAutoplayRound();
+  }
+
+  /** Start the run's next round with the current selection; stop the run if it can't. */
+  private nextAutoplayRound(): void {
+    if (this.state !== 'ready') this.resetToReady();
+    this.autoplayBalance = this.economy.balance;
+    this.startRound();
+    if (this.state !== 'running') this.stopAutoplay('blocked');
+    else this.refreshAutoplay();
+  }
+
+  private stopAutoplay(reason: AutoplayStop): void {
+    if (!this.autoplay?.running) return;
+    this.autoplay.stop(reason);
+    this.ui.setAutoplayActive(false);
+    if (this.state !== 'running') this.ui.setControlsEnabled(true);
+    this.refreshAutoplay();
+  }
+
+  private refreshAutoplay(): void {
+    const ap = this.autoplay;
+    if (!ap) return;
+    const current = ap.played + (ap.running && this.state === 'running' ? 1 : 0);
+    const end = ap.stopped ? ` — ${AUTOPLAY_STOP_LABELS[ap.stopped]}` : '';
+    this.ui.setAutoplayText(`Round ${current} / ${ap.config.rounds} · net ${this.money(ap.net, true)}${end}`);
+  }
+
+  // ── Server ─────────────────────────────────────────────────────
+
+  /** Pick up the saved session on the server, or open a new one. */
+  private connectServer(): void {
+    if (this.connecting) return;
+    const client = this.server!;
+    this.connecting = true;
+    this.ui.setServerMode(`Rounds settled by ${client.baseUrl}`);
+    this.ui.setStartButtonLabel('Connecting...', true);
+    const saved = window.localStorage.getItem(SERVER_SESSION_KEY);
+    const session = saved === null ? client.createSession() : client.getSession(saved).catch((err) => {
+      // The reference server forgets its sessions when it restarts
+      if (err instanceof ProtocolError && err.code === 'not_found') return client.createSession();
+      throw err;
+    });
+    session.then(async (state) => {
+      // A round left open by a reload is settled already; nothing more can be bought in it
+      if (state.openRound) {
+        this.limits.recordPlay(state.openRound.wagered, state.openRound.net);
+        state = await client.closeRound(state.sessionId, state.openRound.roundId);
+      }
+      window.localStorage.setItem(SERVER_SESSION_KEY, state.sessionId);
+      this.remote = { sessionId: state.sessionId, balance: state.balance, round: null, busy: false };
+      this.ui.setServerNotice(null);
+    }).catch((err) => this.serverError(err)).finally(() => {
+      this.connecting = false;
+      // START tries again after a failure
+      if (this.state === 'ready') this.syncUi();
+    });
+  }
+
+  private serverError(err: unknown): void {
+    this.ui.setServerNotice(err instanceof Error ? err.message : String(err));
+  }
+
+  /** Ask the server for a round with the current selection, then animate it. */
+  private startServerRound(): void {
+    const remote = this.remote;
+    if (!remote) {
+      this.connectServer();
+      return;
+    }
+    if (remote.busy) return;
+    const booster = this.selectedBoosterType;
+    if (!this.allowStake(this.economy.stake + boosterCost(booster))) return;
+
+    remote.busy = true;
+    this.ui.setStartButtonLabel('Waiting for server...', true);
+    this.server!.openRound(remote.sessionId, {
+      stake:   this.economy.stake,
+      mode:    this.selectedMode,
+      teams:   this.selectedTeams,
+      warrior: WARRIOR_COLORS_LIST[this.selectedWarriorIdx],
+      booster,
+      pickups: this.selectedPickupRule,
+      arena:   this.arena.layoutName,
+    }).then(
+      (round) => { remote.busy = false; this.playServerRound(round); },
+      (err) => {
+        remote.busy = false;
+        this.serverError(err);
+        this.ui.setStartButtonLabel(this.startLabel(false), false);
+      },
+    );
+  }
+
+  private playServerRound(settled: RoundState): void {
+    this.remote!.round = settled;
+    this.ui.setServerNotice(null);
+    this.replayer = new RoundReplayer(settled.recording, this.arena);
+    this.round = this.replayer.round;
+    this.ui.setSeed(String(settled.recording.seed));
+
+    this.buildRoundGfx();
+    this.bindRound(this.round);
 
     this.speedupActive = false;
     this.state = 'running';
     this.ui.setStatus('running');
     this.ui.setControlsEnabled(false);
     this.ui.setStartButtonLabel('Running...', true);
-    this.ui.updateBalance(this.economy.balance);
+    this.ui.updateBalance(this.round.economy.balance);
     this.ui.updateProfit(0);
     this.ui.hideFinalProfit();
-    this.ui.setRunningMode(true, this.economy.balance, !!this.boosterPickup?.active);
-    this.ui.updateBoostersBought(this.boostersBought);
+    this.ui.showSideBetResult(null);
+    this.ui.setRunningMode(true, this.round.economy.balance, !!this.round.boosterPickup?.active);
+    this.ui.updateBoostersBought(this.round.boostersBought);
+    this.ui.setLastPickup(null);
     this.ui.setSpeedupActive(false);
   }
 
-  private spawnWarriors(): void {
+  /**
+   * Buy at the tick on screen. The round holds still until the server has
+   * settled it again with the purchase, then plays on from the same tick.
+   */
+  private buyServerBooster(type: BoosterType): void {
+    const remote = this.remote!;
+    const replayer = this.replayer!;
+    if (remote.busy || !this.allowStake(BOOSTERS[type].cost)) return;
+
+    remote.busy = true;
+    this.server!.buyBooster(remote.sessionId, remote.round!.roundId, { tick: replayer.round.tick, booster: type })
+      .then((settled) => {
+        replayer.adopt(settled.recording);
+        remote.round = settled;
+        this.ui.setServerNotice(null);
+      })
+      .catch((err) => this.serverError(err))
+      .finally(() => { remote.busy = false; });
+  }
+
+  private finishServerRound(win: boolean): void {
+    const remote = this.remote!;
+    const settled = remote.round!;
+    const { round } = this.replayer!;
+    remote.round = null;
+    if (!this.replayer!.matchesRecording()) {
+      this.ui.setServerNotice(`Round ${settled.roundId} played out differently here; the server's result stands`);
+    }
+    // The server's figures stand, whatever was animated
+    remote.balance = settled.balance;
+    this.lastRecording = settled.recording;
+    this.limits.recordPlay(settled.wagered, settled.net);
+
+    this.ui.setStatus(this.state);
+    this.ui.updateBalance(remote.balance);
+    this.ui.updateProfit(round.economy.roundProfit);
+    this.ui.showFinalProfit(settled.recording.result!.finalProfit, win, round.economy.payout.winMultiplier);
+    this.ui.setControlsEnabled(true);
+    this.ui.setStartButtonLabel(this.startLabel(true), false);
+    this.ui.setRunningMode(false, remote.balance, false);
+    this.ui.setRecordingAvailable(true);
+    this.ui.showRoundEndPopup(win, settled.recording.result!.finalProfit, round.bet);
+
+    remote.busy = true;
+    this.server!.closeRound(remote.sessionId, settled.roundId)
+      .then((state) => {
+        remote.balance = state.balance;
+        if (this.state !== 'running') this.ui.updateBalance(state.balance);
+      })
+      .catch((err) => this.serverError(err))
+      .finally(() => { remote.busy = false; });
+  }
+
+  // ── Tournament ─────────────────────────────────────────────────
+
+  private enterTournament(): void {
+    if (this.server || this.state === 'running' || this.tournament?.running) return;
+    const cfg = { ...DEFAULT_TOURNAMENT, carryOver: this.selectedCarryOver };
+    if (!this.economy.canEnterTournament(cfg.buyIn)) return;
+    if (!this.allowStake(cfg.buyIn)) return;
+    if (this.state !== 'ready') this.resetToReady();
+
+    this.tournament = new Tournament(cfg, this.economy);
+    this.ui.setTournamentActive(true);
+    this.syncUi();
+  }
+
+  private cashOutTournament(): void {
+    if (this.state === 'running' || !this.tournament?.cashOut()) return;
+    this.ui.updateBalance(this.economy.balance);
+    this.ui.setStartButtonLabel(this.startLabel(this.state !== 'ready'), false);
+    this.refreshBracket();
+    this.onTournamentOver(this.tournament, this.state === 'ready' ? '▶ Start Round' : '▶ Continue');
+  }
+
+  /** Bracket rows for the Ui; the cash-out offer only stands between stages. */
+  private refreshBracket(): void {
+    const t = this.tournament;
+    if (!t) {
+      this.ui.updateBracket(null);
+      return;
+    }
+    const view: BracketView = {
+      stages: t.config.stages.map((s, i) => ({
+        label: stageLabel(s),
+        prize: stagePrize(t.config, i),
+        state: i < t.stage ? 'cleared'
+          : i > t.stage ? 'upcoming'
+          : t.status === 'lost' ? 'lost' : 'current',
+      })),
+      cashOut: t.canCashOut && this.state !== 'running' ? t.prize : null,
+    };
+    this.ui.updateBracket(view);
+  }
+
+  /** Settle a finished bracket with the outcome strategy and unlock the mode. */
+  private onTournamentOver(t: Tournament, button: string): void {
+    const s = t.settlement!;
+    const wagered = s.buyIn + s.boosterSpend;
+    this.outcomeCtrl.recordResult({ wagered, returned: s.payout, win: s.net > 0 });
+    this.ui.setTournamentActive(false);
+    this.ui.selectMode(this.selectedMode, this.selectedTeams);
+    this.refreshSideBets();
+
+    const title = t.status === 'won' ? '★ CHAMPION! ★' : t.status === 'cashed_out' ? 'Cashed Out' : 'Knocked Out';
+    this.ui.showTournamentPopup(
+      title,
+      `Tournament payout: <strong>${this.money(s.payout)}</strong>` +
+      `<br>Net after buy-in and boosters: <strong>${this.money(s.net, true)}</strong>`,
+      s.payout > 0,
+      button,
+    );
+  }
+
+  // ── Rounds ─────────────────────────────────────────────────────
+
+  startRound(): void {
+    if (this.server) {
+      this.startServerRound();
+      return;
+    }
+    const stage = this.tournament?.currentStage ?? null;
+    const bets  = stage ? [] : this.selectedSideBets.map(p => ({ ...p, stake: SIDE_BET_STAKE }));
+    const sideBetStake = bets.length * SIDE_BET_STAKE;
+    if (!this.economy.canAffordRound(boosterCost(this.selectedBoosterType), sideBetStake)) return;
+    if (!this.allowStake(this.economy.roundBet + boosterCost(this.selectedBoosterType) + sideBetStake)) return;
+    const mode  = stage ? stage.mode : this.selectedMode;
+    const teams = stage ? stage.teams ?? 'ffa' : this.selectedTeams;
+    const carry = stage ? this.tournament!.carry : null;
+    if (stage) this.ui.selectMode(mode, teams);
+
+    const seed = this.seedOverride !== '' ? parseSeed(this.seedOverride) : undefined;
+    const root = new Rng(seed);
+    const roundSeed = root.getSeed();
+    const rng = root.streams();
+    this.ui.setSeed(String(roundSeed));
+
+    const startBalance = this.economy.balance;
+    const decision = this.outcomeCtrl.decide(rng.outcome);
+    this.round = new RoundEngine({
+      mode,
+      teams,
+      pickups:     this.selectedPickupRule,
+      playerColor: WARRIOR_COLORS_LIST[this.selectedWarriorIdx],
+      booster:     this.selectedBoosterType,
+      arena:       this.arena,
+      rng,
+      combat:      new CombatResolver(),
+      params:      decision.params,
+      economy:     this.economy,
+      carry,
+    });
+    this.sideBets = null;
+    if (bets.length > 0) {
+      this.sideBets = new SideBetBook(bets, mode, this.economy);
+      this.sideBets.subscribe(this.round.events);
+    }
+    this.recorder = new RoundRecorder({
+      seed:           roundSeed,
+      mode,
+      teams,
+      pickups:        this.selectedPickupRule,
+      arena:          this.arena.layoutName,
+      playerColor:    WARRIOR_COLORS_LIST[this.selectedWarriorIdx],
+      booster:        this.selectedBoosterType,
+      // Side bets stay outside the replay; only their stake's effect on the balance counts
+      startBalance:   startBalance - sideBetStake,
+      stake:          this.economy.stake,
+      tournament:     stage !== null,
+      carry,
+      decision,
+    });
+
+    this.buildRoundGfx();
+    this.bindRound(this.round);
+
+    // Speedup carries over from one autoplayed round to the next
+    if (!this.autoplay?.running) this.speedupActive = false;
+    this.state = 'running';
+    this.ui.setStatus('running');
+    this.ui.setControlsEnabled(false);
+    this.ui.setStartButtonLabel('Running...', true);
+    this.ui.updateBalance(this.economy.balance);
+    this.ui.updateProfit(0);
+    this.ui.hideFinalProfit();
+    this.ui.showSideBetResult(null);
+    this.ui.setRunningMode(true, this.economy.balance, !!this.round.boosterPickup?.active);
+    this.ui.updateBoostersBought(this.round.boostersBought);
+    this.ui.setLastPickup(null);
+    this.ui.setSpeedupActive(this.speedupActive);
+    this.refreshBracket();
+  }
+
+  private buildRoundGfx(): void {
     this.warriorLayer.removeChildren();
     this.warriorContainerMap.clear();
     this.warriorBodyGfxMap.clear();
     this.warriorHpGfxMap.clear();
     this.hpTextMap.clear();
     this.weaponIconMap.clear();
-    this.warriors = [];
     this.hitFlashes = [];
 
-    const count = this.selectedMode;
-    const colors = WARRIOR_COLORS_LIST.slice();
-    const playerColor = WARRIOR_COLORS_LIST[this.selectedWarriorIdx];
-    colors.splice(colors.indexOf(playerColor), 1);
-    colors.unshift(playerColor);
-
-    const positions: { x: number; y: number }[] = [];
-    const margin = WARRIOR_RADIUS + 20;
-    for (let i = 0; i < count; i++) {
-      let x = 0, y = 0, attempts = 0;
-      do {
-        x = this.rng.float(this.arena.left + margin, this.arena.right - margin);
-        y = this.rng.float(this.arena.top  + margin, this.arena.bottom - margin);
-        attempts++;
-      } while (
-        attempts < 1000 &&
-        positions.some(p => Math.hypot(p.x - x, p.y - y) < WARRIOR_RADIUS * 2.5)
-      );
-      positions.push({ x, y });
-    }
-
-    for (let i = 0; i < count; i++) {
-      const angle = this.rng.angle();
-      const isPlayer = i === 0;
-      const speed = isPlayer
-        ? WARRIOR_SPEED * this.outcomeParams.playerSpeedMul
-        : WARRIOR_SPEED;
-
-      const w = new Warrior({
-        id: i, color: colors[i], isPlayer,
-        px: positions[i].x, py: positions[i].y,
-        vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed,
-        speed,
-      });
-      w.updateWeaponPos();
-      this.warriors.push(w);
-      this.buildWarriorGfx(w);
-    }
+    for (const w of this.round!.warriors) this.buildWarriorGfx(w);
   }
 
   private buildWarriorGfx(w: Warrior): void {
@@ -263,7 +747,7 @@ export class Game {
     this.warriorHpGfxMap.set(w.id, hpGfx);
 
     const hpText = new PIXI.Text({
-      text: '100',
+      text: String(w.maxHp),
       style: {
         fontSize: 11,
         fontWeight: 'bold',
@@ -279,7 +763,7 @@ export class Game {
     // Weapon emoji — world coords, repositioned every frame to follow velocity direction
     // fontSize 49 ≈ 3.5× original 14px (halved from previous 98px)
     const weaponIcon = new PIXI.Text({
-      text: WARRIOR_LABELS[w.color],
+      text: w.label,
       style: { fontSize: 49 },
     });
     weaponIcon.anchor.set(0.5, 0.5);
@@ -287,40 +771,87 @@ export class Game {
     this.weaponIconMap.set(w.id, weaponIcon);
   }
 
-  private spawnBoosterPickup(type: BoosterType | 'none'): void {
-    if (type === 'none') return;
-    this.boosterPickup = spawnBooster(type, this.arena, this.rng);
-    this.ensureBoosterGfx(type);
-  }
-
   private ensureBoosterGfx(type: BoosterType): void {
-    const icons: Record<BoosterType, string> = { burger: '🍔', glove: '🥊', shield: '🛡️' };
+    const icon = BOOSTERS[type].icon;
     if (!this.boosterGfx) {
       this.boosterGfx = new PIXI.Graphics();
       this.boosterLayer.addChild(this.boosterGfx);
     }
     if (!this.boosterLabel) {
-      this.boosterLabel = new PIXI.Text({ text: icons[type], style: { fontSize: 16 } });
+      this.boosterLabel = new PIXI.Text({ text: icon, style: { fontSize: 16 } });
       this.boosterLabel.anchor.set(0.5, 0.5);
       this.boosterLayer.addChild(this.boosterLabel);
     } else {
-      this.boosterLabel.text = icons[type];
+      this.boosterLabel.text = icon;
       this.boosterLabel.visible = true;
     }
   }
 
+  /**
+   * Play a recorded round back tick-for-tick. Uses its own Economy, so the
+   * live balance is left alone; the booster buy buttons stay disabled.
+   */
+  startReplay(rec: RoundRecording): void {
+    if (this.state === 'running' || this.autoplay?.running) return;
+    if (this.state !== 'ready') this.resetToReady();
+    this.ui.setServerNotice(null);
+
+    // Show the recorded layout; the replayer builds its own arena from it
+    this.setArenaLayout(rec.arena);
+    this.ui.selectArena(rec.arena);
+    this.selectedPickupRule = rec.pickups;
+    this.ui.selectPickupRule(rec.pickups);
+    this.replayer = new RoundReplayer(rec, this.arena);
+    this.round = this.replayer.round;
+    this.ui.setSeed(String(rec.seed));
+
+    this.buildRoundGfx();
+    this.bindRound(this.round);
+
+    this.speedupActive = false;
+    this.state = 'running';
+    this.ui.setStatus('replay');
+    this.ui.setControlsEnabled(false);
+    this.ui.setStartButtonLabel('Replaying...', true);
+    this.ui.updateProfit(0);
+    this.ui.hideFinalProfit();
+    this.ui.showSideBetResult(null);
+    this.ui.setRunningMode(true, 0, true);
+    this.ui.updateBoostersBought(this.round.boostersBought);
+    this.ui.setLastPickup(null);
+    this.ui.setSpeedupActive(false);
+  }
+
+  private saveLastRecording(): void {
+    const rec = this.lastRecording;
+    if (!rec) return;
+    this.ui.downloadText(`round-${rec.seed}.json`, JSON.stringify(rec, null, 2));
+  }
+
+  private loadRecording(json: string): void {
+    try {
+      const rec = parseRecording(json);
+      this.startReplay(rec);
+    } catch (err) {
+      this.ui.setServerNotice(`Could not load the recording: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
   buyBoosterMidRound(type: BoosterType): void {
-    if (this.state !== 'running') return;
-    if (this.economy.balance < BOOSTER_COST) return;
-    if (this.boosterPickup?.active) return;
+    if (this.state !== 'running' || !this.round) return;
+    if (this.remote?.round) {
+      this.buyServerBooster(type);
+      return;
+    }
+    if (this.replayer) return;
+    if (!this.allowStake(BOOSTERS[type].cost)) return;
 
-    this.economy.balance -= BOOSTER_COST;
-    this.boosterPickup = spawnBooster(type, this.arena, this.rng);
-    this.ensureBoosterGfx(type);
-    this.boostersBought[type]++;
+    const input = { tick: this.round.tick, type: 'buy_booster', booster: type } as const;
+    if (!this.round.applyInput(input)) return;
+    this.recorder?.record(input);
 
     this.ui.updateBalance(this.economy.balance);
-    this.ui.updateBoostersBought(this.boostersBought);
+    this.ui.updateBoostersBought(this.round.boostersBought);
     this.ui.setRunningMode(true, this.economy.balance, true);
   }
 
@@ -330,70 +861,86 @@ export class Game {
   }
 
   update(deltaMS: number): void {
-    if (this.state !== 'running') return;
+    this.limitsRefreshMs += deltaMS;
+    if (this.limitsRefreshMs >= 1000) {
+      this.limitsRefreshMs = 0;
+      this.refreshLimits();
+    }
+    if (this.autoplay?.running && (this.state === 'win' || this.state === 'lose')) {
+      this.autoplayGapMs += this.speedupActive ? deltaMS * 2 : deltaMS;
+      if (this.autoplayGapMs >= AUTOPLAY_GAP_MS) {
+        this.autoplayGapMs = 0;
+        this.nextAutoplayRound();
+      }
+    }
+    if (this.state !== 'running' || !this.round) return;
 
-    const simDelta = this.speedupActive ? deltaMS * 2 : deltaMS;
+    // A server round holds still while a purchase is on its way
+    const paused = !!this.remote?.busy;
+    const simDelta = paused ? 0 : this.speedupActive ? deltaMS * 2 : deltaMS;
     this.accumulator += simDelta / 1000;
 
     const MAX_STEPS = this.speedupActive ? 10 : 5;
     let steps = 0;
 
-    while (this.accumulator >= FIXED_DT && steps < MAX_STEPS) {
-      this.physicsStep(FIXED_DT);
+    while (!paused && this.accumulator >= FIXED_DT && steps < MAX_STEPS && this.round.running) {
+      if (this.replayer) this.replayer.step(FIXED_DT);
+      else this.round.step(FIXED_DT);
       this.accumulator -= FIXED_DT;
       steps++;
     }
 
     this.updateEffects(deltaMS);
     this.renderFrame();
-    this.checkRoundEnd();
   }
 
-  private physicsStep(dt: number): void {
-    const alive = this.warriors.filter(w => w.alive && !w.dying);
+  /** Subscribe rendering and UI to a freshly created round, before it starts. */
+  private bindRound(round: RoundEngine): void {
+    const { events, economy } = round;
+
+    events.on('booster_spawn', (ev) => {
+      this.ensureBoosterGfx(ev.booster.type);
+      // A server round's purchase lands once the replay reaches its tick
+      if (ev.midRound && this.remote?.round) {
+        this.ui.updateBalance(economy.balance);
+        this.ui.updateBoostersBought(round.boostersBought);
+        this.ui.setRunningMode(true, economy.balance, true);
+      }
+    });
 
-    // Advance rotation BEFORE motion so integrateMotion→updateWeaponPos uses the new angle.
-    // w.rotationRad is the single source of truth for both visuals and hitbox position.
-    for (const w of alive) {
-      w.rotationRad += (w.speed / WARRIOR_RADIUS) * dt;
-    }
+    events.on('damage', (ev) => {
+      this.hitFlashes.push({ warrior: ev.victim, timer: 200 });
+      this.ui.updateProfit(economy.roundProfit);
+    });
 
-    integrateMotion(alive, dt);
-    resolveWalls(alive, this.arena);
-    const pairs = resolveWarriorCollisions(alive);
+    events.on('shield_block', (ev) => {
+      this.spawnFloatingText(ev.victim.px, ev.victim.py - WARRIOR_RADIUS - 10, 'BLOCKED', 0x44ff44);
+    });
 
-    const now = performance.now();
-    for (const pair of pairs) {
-      const rawEvents = processCollision(pair, now, this.outcomeParams, () => this.rng.next());
-      const applied   = applyDamageEvents(rawEvents);
-      for (const ev of applied) {
-        this.economy.processDamageEvent(ev);
-        this.hitFlashes.push({ warrior: ev.victim, timer: 200 });
-        this.ui.updateProfit(this.economy.roundProfit);
-      }
-    }
+    events.on('booster_pickup', ({ warrior, booster, message }) => {
+      const color = warrior.isPlayer ? 0xffff44 : warrior.team === PLAYER_TEAM ? 0x40ff80 : 0xff6060;
+      this.spawnFloatingText(warrior.px, warrior.py - WARRIOR_RADIUS - 10, message, color);
+      this.ui.setLastPickup(`${BOOSTERS[booster.type].icon} grabbed by ${describeWarrior(warrior)}`);
+      this.ui.updateProfit(economy.roundProfit);
+      if (!this.replayer || this.remote?.round) this.ui.setRunningMode(true, economy.balance, false);
+    });
 
-    const player = this.warriors.find(w => w.isPlayer && w.alive);
-    if (player && this.boosterPickup?.active) {
-      checkPickup(player, this.boosterPickup, (b) => {
-        const msg = applyBooster(player, b);
-        this.spawnFloatingText(player.px, player.py - WARRIOR_RADIUS - 10, msg, 0xffff44);
-        this.ui.updateProfit(this.economy.roundProfit);
-        this.ui.setRunningMode(true, this.economy.balance, false);
-      });
-    }
+    events.on('booster_expire', ({ warrior, type }) => {
+      // Spent charges speak for themselves (BLOCKED, the bonus hit); only timers need a notice
+      if (BOOSTERS[type].durationMs === undefined) return;
+      this.spawnFloatingText(warrior.px, warrior.py - WARRIOR_RADIUS - 10, `${BOOSTERS[type].name} wore off`, 0xaaaacc);
+    });
 
-    for (const w of this.warriors) {
-      if (w.dying && w.alive) {
-        w.alpha -= dt * 3;
-        if (w.alpha <= 0) { w.alpha = 0; w.alive = false; }
-      }
-      if (w.healPulse) {
-        w.healPulseTimer -= dt * 1000;
-        if (w.healPulseTimer <= 0) w.healPulse = false;
-      }
-    }
+    events.on('sudden_death', () => {
+      this.spawnFloatingText(this.arena.cx, this.arena.cy, 'SUDDEN DEATH', 0xff4040);
+    });
 
+    events.on('round_end', (ev) => {
+      if (ev.timeLimit) this.spawnFloatingText(this.arena.cx, this.arena.cy, 'TIME — decided on HP', 0xffaa40);
+      this.onRoundEnd(ev.outcome === 'win');
+    });
+
+    round.start();
   }
 
   private updateEffects(deltaMS: number): void {
@@ -411,9 +958,10 @@ export class Game {
   }
 
   private renderFrame(): void {
+    if (!this.round) return;
     const now = performance.now();
 
-    for (const w of this.warriors) {
+    for (const w of this.round.warriors) {
       const container = this.warriorContainerMap.get(w.id);
       const bodyGfx   = this.warriorBodyGfxMap.get(w.id);
       const hpGfx     = this.warriorHpGfxMap.get(w.id);
@@ -442,7 +990,7 @@ export class Game {
       hpGfx.visible  = true;
       hpText.visible = true;
 
-      const color     = WARRIOR_COLORS[w.color];
+      const color     = w.tint;
       const isFlashing = this.hitFlashes.some(hf => hf.warrior === w && hf.timer > 0);
 
       // Body drawn at local (0,0) — container handles world placement + rotation
@@ -453,6 +1001,12 @@ export class Game {
       bodyGfx.circle(0, 0, WARRIOR_RADIUS);
       bodyGfx.stroke({ color: 0xffffff, width: 1.5, alpha: 0.4 });
 
+      // Team ring: green for the player's side, a colour per enemy team
+      if (this.round.teams !== 'ffa') {
+        bodyGfx.circle(0, 0, WARRIOR_RADIUS + 3);
+        bodyGfx.stroke({ color: w.team === PLAYER_TEAM ? 0x40ff80 : ENEMY_TEAM_RINGS[(w.team - 1) % ENEMY_TEAM_RINGS.length], width: 3 });
+      }
+
       // Roll mark: a stripe from center toward the "top" of the circle,
       // plus a small dot near the edge. These spin with the container.
       bodyGfx.moveTo(0, 0);
@@ -461,21 +1015,18 @@ export class Game {
       bodyGfx.circle(0, -(WARRIOR_RADIUS - 7), 3);
       bodyGfx.fill({ color: 0xffffff, alpha: 0.7 });
 
-      // Booster effect rings (circles, so rotation is invisible on them)
-      if (w.isPlayer) {
-        if (w.healPulse) {
-          const pulse = Math.sin(now * 0.015) * 0.5 + 0.5;
-          bodyGfx.circle(0, 0, WARRIOR_RADIUS + 5);
-          bodyGfx.stroke({ color: 0xff4444, width: 3, alpha: 0.7 + pulse * 0.3 });
-        }
-        if (w.boosterEffect === 'glove') {
-          bodyGfx.circle(0, 0, WARRIOR_RADIUS + 5);
-          bodyGfx.stroke({ color: 0xffdd00, width: 3 });
-        } else if (w.boosterEffect === 'shield') {
-          bodyGfx.circle(0, 0, WARRIOR_RADIUS + 5);
-          bodyGfx.stroke({ color: 0x44ff44, width: 3 });
-        }
+      // Booster effect rings (circles, so rotation is invisible on them), one per stacked effect
+      if (w.healPulse) {
+        const pulse = Math.sin(now * 0.015) * 0.5 + 0.5;
+        bodyGfx.circle(0, 0, WARRIOR_RADIUS + 5);
+        bodyGfx.stroke({ color: 0xff4444, width: 3, alpha: 0.7 + pulse * 0.3 });
       }
+      w.effects.forEach((e, i) => {
+        const color = BOOSTERS[e.type].ringColor;
+        if (color === undefined) return;
+        bodyGfx.circle(0, 0, WARRIOR_RADIUS + 5 + i * 4);
+        bodyGfx.stroke({ color, width: 3 });
+      });
 
       // --- Weapon emoji: world coords, follows velocity direction, does NOT spin ---
       iconText.x       = w.weaponX;
@@ -484,7 +1035,7 @@ export class Game {
 
       // --- HP bar (world coords, never rotates) ---
       hpGfx.clear();
-      const hpFrac = Math.max(0, w.hp / 100);
+      const hpFrac = Math.max(0, w.hp / w.maxHp);
       const barW = WARRIOR_RADIUS * 2;
       const barH = 4;
       const bx = w.px - WARRIOR_RADIUS;
@@ -506,9 +1057,11 @@ export class Game {
       hpText.y    = by - 2;
     }
 
+    if (this.round.arena !== this.drawnBoundary) this.drawBoundary(this.round.arena);
+
     // Booster pickup visual
-    if (this.boosterPickup?.active && this.boosterGfx && this.boosterLabel) {
-      const b = this.boosterPickup;
+    if (this.round.boosterPickup?.active && this.boosterGfx && this.boosterLabel) {
+      const b = this.round.boosterPickup;
       this.boosterGfx.clear();
       const pulse = Math.sin(performance.now() * 0.004) * 0.15 + 0.85;
       this.boosterGfx.circle(b.px, b.py, b.radius + 3);
@@ -524,35 +1077,88 @@ export class Game {
     }
   }
 
-  private checkRoundEnd(): void {
-    const player = this.warriors.find(w => w.isPlayer);
-    if (!player) return;
-
-    const playerAlive   = player.alive && !player.dying;
-    const aliveNonDying = this.warriors.filter(w => w.alive && !w.dying);
-    const playerDead    = !playerAlive;
-    const playerLast    = playerAlive && aliveNonDying.length === 1;
-
-    if (!playerDead && !playerLast) return;
-
-    const win = playerLast;
+  private onRoundEnd(win: boolean): void {
+    if (!this.round) return;
     this.state = win ? 'win' : 'lose';
 
-    this.economy.finaliseRound(win);
+    if (this.remote?.round) {
+      this.finishServerRound(win);
+      return;
+    }
+    if (this.replayer) {
+      this.finishReplay(win);
+      return;
+    }
+
+    if (this.recorder) {
+      this.lastRecording = this.recorder.finish(this.round);
+      this.recorder = null;
+    }
+    // A bracket round is settled with its tournament, not on its own
+    const t = this.tournament?.running ? this.tournament : null;
+    if (t) {
+      t.completeStage(this.round);
+    } else {
+      const wagered = this.round.wagered;
+      this.outcomeCtrl.recordResult({ wagered, returned: wagered + this.economy.finalProfit, win });
+    }
 
     this.ui.setStatus(this.state);
     this.ui.updateBalance(this.economy.balance);
     this.ui.updateProfit(this.economy.roundProfit);
-    this.ui.showFinalProfit(this.economy.finalProfit, win);
+    this.ui.showFinalProfit(this.economy.finalProfit, win, this.economy.payout.winMultiplier);
+    this.ui.showSideBetResult(this.sideBets
+      ? { stake: this.sideBets.totalStake, returned: this.sideBets.totalReturned }
+      : null);
     this.ui.setControlsEnabled(true);
-    this.ui.setStartButtonLabel('▶ PLAY AGAIN (10 FUN)', false);
+    this.ui.setStartButtonLabel(this.startLabel(true), false);
     this.ui.setRunningMode(false, this.economy.balance, false);
-    this.ui.showRoundEndPopup(win, this.economy.finalProfit, BET_AMOUNT);
+    this.ui.setRecordingAvailable(true);
+    this.refreshBracket();
+
+    // Autoplayed rounds go on without the popups, until the run stops
+    const autoplayed = !!this.autoplay?.running;
+    if (autoplayed) {
+      const reason = this.autoplay!.recordRound(this.economy.balance - this.autoplayBalance, this.economy.balance);
+      if (reason) this.stopAutoplay(reason);
+      else this.ui.setControlsEnabled(false);
+      this.refreshAutoplay();
+      this.autoplayGapMs = 0;
+    }
+
+    if (!t) {
+      if (!autoplayed) this.ui.showRoundEndPopup(win, this.economy.finalProfit, this.round.bet);
+    } else if (!t.running) {
+      this.onTournamentOver(t, '▶ Continue');
+    } else if (!autoplayed) {
+      this.ui.showTournamentPopup(
+        `Stage ${t.stage} cleared`,
+        `Prize now <strong>${this.money(t.prize)}</strong>` +
+        `<br>Next: <strong>${stageLabel(t.currentStage!)}</strong> for ${this.money(stagePrize(t.config, t.stage))}, or cash out`,
+        true,
+        '▶ Next Stage',
+      );
+    }
+  }
+
+  private finishReplay(win: boolean): void {
+    const replayer = this.replayer!;
+    if (!replayer.matchesRecording()) {
+      this.ui.setServerNotice(`Replay of round ${replayer.recording.seed} played out differently from its recording`);
+    }
+
+    this.ui.setStatus(this.state);
+    this.ui.updateProfit(replayer.round.economy.roundProfit);
+    this.ui.showFinalProfit(replayer.round.economy.finalProfit, win, replayer.round.economy.payout.winMultiplier);
+    this.ui.setControlsEnabled(true);
+    this.ui.setStartButtonLabel('▶ BACK', false);
+    this.ui.setRunningMode(false, this.balance, false);
   }
 
   private resetToReady(): void {
     this.state = 'ready';
-    this.warriors = [];
+    this.round = null;
+    this.replayer = null;
     this.warriorLayer.removeChildren();
     this.warriorContainerMap.clear();
     this.warriorBodyGfxMap.clear();
@@ -562,13 +1168,11 @@ export class Game {
     this.boosterLayer.removeChildren();
     this.boosterGfx = null;
     this.boosterLabel = null;
-    this.boosterPickup = null;
     this.hitFlashes = [];
     for (const ft of this.floatingTexts) this.effectLayer.removeChild(ft.text);
     this.floatingTexts = [];
     this.accumulator = 0;
-    this.speedupActive = false;
-    this.boostersBought = { burger: 0, glove: 0, shield: 0 };
+    if (!this.autoplay?.running) this.speedupActive = false;
 
     this.ui.hidePopup();
     this.syncUi();
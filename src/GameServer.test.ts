@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Arena } from './Arena';
+import { BOOSTERS } from './Boosters';
+import { Rng } from './Rng';
+import { GameServer } from './GameServer';
+import { toMinor } from './Money';
+import { ProtocolError, RoundRequest, RoundState } from './Protocol';
+import { ARENA_ORIGIN, ARENA_SIZE, FIXED_DT } from './RoundEngine';
+import { RoundReplayer } from './Replay';
+
+const REQUEST: RoundRequest = {
+  stake: 10, mode: 2, teams: 'ffa', warrior: 'red', booster: 'none', pickups: 'player', arena: 'square',
+};
+
+/** A server with seeds 1, 2, 3… and a clock the test moves by hand. */
+function setup(initialBalance = 1000) {
+  let seed = 0;
+  const clock = { ms: 0 };
+  const server = new GameServer({ initialBalance, createRng: () => new Rng(++seed), now: () => clock.ms });
+  return { server, clock };
+}
+
+function replayerFor(state: RoundState): RoundReplayer {
+  return new RoundReplayer(state.recording, new Arena(ARENA_ORIGIN, ARENA_ORIGIN, ARENA_SIZE));
+}
+
+function rejection(fn: () => unknown): string {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof ProtocolError) return err.code;
+    throw err;
+  }
+  return 'accepted';
+}
+
+test('a settled round replays to the server result and balance', () => {
+  const { server } = setup();
+  const { sessionId } = server.createSession();
+  for (let i = 0; i < 5; i++) {
+    const state = server.openRound(sessionId, REQUEST);
+    const replayer = replayerFor(state);
+    while (replayer.round.running) replayer.step();
+
+    assert.ok(replayer.matchesRecording(), `round ${state.roundId} diverged`);
+    assert.equal(replayer.round.economy.balance, state.balance);
+    assert.equal(state.wagered, replayer.round.wagered);
+    assert.equal(toMinor(state.net), toMinor(state.balance) - toMinor(state.recording.startBalance));
+    assert.equal(server.closeRound(sessionId, state.roundId).balance, state.balance);
+  }
+});
+
+test('a mid-round purchase settles again and the client plays on from the same tick', () => {
+  const { server, clock } = setup();
+  const { sessionId } = server.createSession();
+  let state = server.openRound(sessionId, REQUEST);
+  const replayer = replayerFor(state);
+  while (replayer.round.tick < 60) replayer.step();
+
+  clock.ms = 60 * FIXED_DT * 1000;
+  state = server.buyBooster(sessionId, state.roundId, { tick: 60, booster: 'shield' });
+  replayer.adopt(state.recording);
+  while (replayer.round.running) replayer.step();
+
+  assert.deepEqual(state.recording.inputs, [{ tick: 60, type: 'buy_booster', booster: 'shield' }]);
+  assert.equal(replayer.rejected.length, 0);
+  assert.ok(replayer.matchesRecording());
+  assert.equal(replayer.round.economy.balance, state.balance);
+  assert.equal(state.wagered, REQUEST.stake + BOOSTERS.shield.cost);
+});
+
+test('purchases are held to where the client can have played', () => {
+  const { server, clock } = setup();
+  const { sessionId } = server.createSession();
+  const { roundId } = server.openRound(sessionId, REQUEST);
+  const buy = (tick: number) => () => server.buyBooster(sessionId, roundId, { tick, booster: 'shield' });
+
+  clock.ms = 1000;
+  assert.equal(rejection(buy(600)), 'purchase_rejected');
+  assert.equal(rejection(buy(60)), 'accepted');
+  assert.equal(rejection(buy(30)), 'purchase_rejected');
+
+  // Ten seconds on from the purchase, playback is near tick 660
+  clock.ms += 10_000;
+  assert.equal(rejection(buy(200)), 'purchase_rejected');
+});
+
+test('a round the balance does not cover is refused', () => {
+  const { server } = setup(5);
+  const { sessionId } = server.createSession();
+  assert.equal(rejection(() => server.openRound(sessionId, REQUEST)), 'insufficient_funds');
+  assert.equal(server.getSession(sessionId).balance, 5);
+});
@@ -0,0 +1,236 @@
+/**
+ * The authoritative side of the protocol in Protocol.ts, without any
+ * transport: sessions, balances and rounds, settled on the headless engine.
+ * Server.ts puts it behind HTTP.
+ *
+ * A round is settled in full the moment it is opened, so the response can
+ * carry the result. A mid-round booster purchase adds an input at the tick
+ * the client had reached and settles the round again from the seed; the
+ * ticks already played come out the same, so the client carries on from
+ * where it paused.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { Arena } from './Arena';
+import { Economy } from './Economy';
+import { Rng } from './Rng';
+import { OutcomeController } from './OutcomeController';
+import { boosterCost } from './Boosters';
+import { toMajor, toMinor } from './Money';
+import { ARENA_ORIGIN, ARENA_SIZE, FIXED_DT, RoundInput } from './RoundEngine';
+import { RoundRecording, RoundReplayer, RECORDING_VERSION } from './Replay';
+import {
+  BoosterPurchase, ProtocolError, RoundRequest, RoundState, SessionState, PROTOCOL_VERSION,
+} from './Protocol';
+
+/** Fastest the client plays a round back: speedup runs it at double speed. */
+const MAX_PLAYBACK_SPEED = 2;
+/** Allowance on top of that for latency and frame jitter, in ticks. */
+const PURCHASE_GRACE_TICKS = 30;
+/**
+ * How far a purchase may trail real-time playback, in ticks: dropped frames
+ * and latency, not a client sitting on a round to buy into its past.
+ */
+const PURCHASE_LAG_TICKS = 180;
+
+export interface GameServerOptions {
+  /** Balance every new session opens with. */
+  initialBalance: number;
+  /** Builds the controller that decides the rounds of one session. */
+  createOutcome: () => OutcomeController;
+  /** Draws each round's root seed. */
+  createRng: () => Rng;
+  /** Epoch milliseconds, for the purchase timing check. */
+  now: () => number;
+}
+
+export const DEFAULT_SERVER_OPTIONS: GameServerOptions = {
+  initialBalance: 1000,
+  createOutcome:  () => new OutcomeController(),
+  createRng:      () => new Rng(),
+  now:            Date.now,
+};
+
+interface OpenRound {
+  id: string;
+  /**
+   * A tick the client stood on and when: the start when the round went out,
+   * then each purchase, since the client holds still while one is on its way.
+   */
+  clock: { tick: number; at: number };
+  settled: Settlement;
+}
+
+interface Session {
+  id: string;
+  balance: number;
+  rounds: number;
+  /** Its own, so one player's results never steer another's rounds. */
+  outcome: OutcomeController;
+  open: OpenRound | null;
+}
+
+/** A round played to the end, and what it left the session with. */
+interface Settlement {
+  recording: RoundRecording;
+  balance: number;
+  /** Staked and returned, for the outcome strategy. */
+  wagered: number;
+  finalProfit: number;
+  /** Balance change over the round, stakes included. */
+  net: number;
+}
+
+export class GameServer {
+  private sessions = new Map<string, Session>();
+  /** Only places the field; each round builds its own from the requested layout. */
+  private arena = new Arena(ARENA_ORIGIN, ARENA_ORIGIN, ARENA_SIZE);
+  private options: GameServerOptions;
+
+  constructor(options: Partial<GameServerOptions> = {}) {
+    this.options = { ...DEFAULT_SERVER_OPTIONS, ...options };
+  }
+
+  createSession(): SessionState {
+    const session: Session = {
+      id:      randomUUID(),
+      balance: this.options.initialBalance,
+      rounds:  0,
+      outcome: this.options.createOutcome(),
+      open:    null,
+    };
+    this.sessions.set(session.id, session);
+    return this.sessionState(session);
+  }
+
+  getSession(sessionId: string): SessionState {
+    return this.sessionState(this.session(sessionId));
+  }
+
+  /**
+   * Take the stake, decide and settle a round. A round still open is closed
+   * first: its result already stands.
+   */
+  openRound(sessionId: string, req: RoundRequest): RoundState {
+    const session = this.session(sessionId);
+    if (session.open) this.close(session);
+
+    const check = new Economy(session.balance);
+    check.setStake(req.stake);
+    if (!check.canAffordRound(boosterCost(req.booster))) {
+      throw new ProtocolError('insufficient_funds', `Balance ${session.balance} does not cover the round`);
+    }
+
+    const root = this.options.createRng();
+    const decision = session.outcome.decide(root.streams().outcome);
+    const settled = this.settle({
+      version:      RECORDING_VERSION,
+      seed:         root.getSeed(),
+      mode:         req.mode,
+      teams:        req.teams,
+      arena:        req.arena,
+      playerColor:  req.warrior,
+      booster:      req.booster,
+      pickups:      req.pickups,
+      startBalance: session.balance,
+      stake:        req.stake,
+      tournament:   false,
+      carry:        null,
+      decision,
+      inputs:       [],
+      result:       null,
+    });
+    if (!settled) throw new Error(`Round ${root.getSeed()} rejected its own setup`);
+
+    session.open = { id: String(++session.rounds), clock: { tick: 0, at: this.options.now() }, settled };
+    session.balance = settled.balance;
+    return this.roundState(session, session.open);
+  }
+
+  /**
+   * Buy a booster at `purchase.tick` of the open round and settle it again.
+   * The tick must lie ahead of the last purchase, inside the round, and
+   * within reach of where the client's playback can stand by now: no further
+   * along than at double speed, no further back than a short lag.
+   */
+  buyBooster(sessionId: string, roundId: string, purchase: BoosterPurchase): RoundState {
+    const session = this.session(sessionId);
+    const open = this.roundOf(session, roundId);
+    const rec = open.settled.recording;
+    const lastTick = rec.inputs[rec.inputs.length - 1]?.tick ?? 0;
+    const now = this.options.now();
+    const elapsed = (now - open.clock.at) / 1000 / FIXED_DT;
+    const earliest = open.clock.tick + elapsed - PURCHASE_LAG_TICKS;
+    const latest = open.clock.tick + elapsed * MAX_PLAYBACK_SPEED + PURCHASE_GRACE_TICKS;
+
+    if (purchase.tick < lastTick) throw new ProtocolError('purchase_rejected', `Tick ${purchase.tick} is before the last purchase`);
+    if (purchase.tick >= rec.result!.ticks) throw new ProtocolError('purchase_rejected', `The round ended at tick ${rec.result!.ticks}`);
+    if (purchase.tick > latest) throw new ProtocolError('purchase_rejected', `Tick ${purchase.tick} has not been played yet`);
+    if (purchase.tick < earliest) throw new ProtocolError('purchase_rejected', `Tick ${purchase.tick} is already behind the round`);
+
+    const input: RoundInput = { tick: purchase.tick, type: 'buy_booster', booster: purchase.booster };
+    const settled = this.settle({ ...rec, inputs: [...rec.inputs, input], result: null });
+    if (!settled) throw new ProtocolError('purchase_rejected', `${purchase.booster} can't be bought at tick ${purchase.tick}`);
+
+    open.settled = settled;
+    open.clock = { tick: purchase.tick, at: now };
+    session.balance = settled.balance;
+    return this.roundState(session, open);
+  }
+
+  /** End the purchase window; the outcome strategy learns the result. */
+  closeRound(sessionId: string, roundId: string): SessionState {
+    const session = this.session(sessionId);
+    this.roundOf(session, roundId);
+    this.close(session);
+    return this.sessionState(session);
+  }
+
+  private close(session: Session): void {
+    const { wagered, finalProfit, recording } = session.open!.settled;
+    session.outcome.recordResult({ wagered, returned: wagered + finalProfit, win: recording.result!.outcome === 'win' });
+    session.open = null;
+  }
+
+  /** Play `rec` through to the end; null if the round turned down any of its inputs. */
+  private settle(rec: RoundRecording): Settlement | null {
+    const replayer = new RoundReplayer(rec, this.arena);
+    const { round } = replayer;
+    while (round.running) replayer.step();
+    // An input past the last tick never came up at all
+    if (replayer.rejected.length > 0 || rec.inputs.some(i => i.tick >= round.tick)) return null;
+
+    const recording = {
+      ...rec,
+      result: { outcome: round.outcome, ticks: round.tick, finalProfit: round.economy.finalProfit },
+    };
+    const { balance, finalProfit, currency } = round.economy;
+    const net = toMajor(toMinor(balance, currency) - toMinor(rec.startBalance, currency), currency);
+    return { recording, balance, wagered: round.wagered, finalProfit, net };
+  }
+
+  private session(sessionId: string): Session {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new ProtocolError('not_found', `No session ${sessionId}`);
+    return session;
+  }
+
+  private roundOf(session: Session, roundId: string): OpenRound {
+    if (session.open?.id !== roundId) throw new ProtocolError('round_state', `Round ${roundId} is not open`);
+    return session.open;
+  }
+
+  private sessionState(session: Session): SessionState {
+    return {
+      version:   PROTOCOL_VERSION,
+      sessionId: session.id,
+      balance:   session.balance,
+      openRound: session.open && this.roundState(session, session.open),
+    };
+  }
+
+  private roundState(session: Session, open: OpenRound): RoundState {
+    const { recording, wagered, net } = open.settled;
+    return { roundId: open.id, recording, balance: session.balance, wagered, net };
+  }
+}
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ledger, LedgerStorage, LEDGER_STORAGE_KEY, Transaction } from './Ledger';
+import { Economy } from './Economy';
+
+/** In-memory storage that refuses values longer than `quota` characters. */
+function memoryStorage(quota = Infinity): LedgerStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      if (value.length > quota) throw new Error('QuotaExceededError');
+      items.set(key, value);
+    },
+  };
+}
+
+/** Each entry's balance is the one before it plus its amount. */
+function assertChain(entries: readonly Transaction[]): void {
+  for (let i = 1; i < entries.length; i++) {
+    assert.equal(
+      Math.round((entries[i - 1].balance + entries[i].amount) * 100),
+      Math.round(entries[i].balance * 100),
+      `chain breaks at entry ${entries[i].id}`,
+    );
+  }
+}
+
+test('every balance movement is chained and survives a reload', () => {
+  const storage = memoryStorage();
+  const economy = new Economy(1000, undefined, Ledger.load(storage));
+  for (let i = 0; i < 3; i++) {
+    economy.startRound(2, 'ffa', 'shield');
+    economy.chargeBooster('boots');
+    economy.finaliseRound(i % 2 === 0);
+  }
+  const ledger = economy.ledger!;
+  assert.equal(ledger.transactions[0].type, 'deposit');
+  assert.equal(ledger.balance, economy.balance);
+  assertChain(ledger.transactions);
+
+  const reloaded = Ledger.load(storage);
+  assert.deepEqual(reloaded.transactions, ledger.transactions);
+  assert.equal(new Economy(1000, undefined, reloaded).balance, economy.balance);
+});
+
+test('a stored copy over the quota folds its oldest entries into one carried forward', () => {
+  const storage = memoryStorage(20_000);
+  const ledger = Ledger.load(storage);
+  let balance = 1000;
+  ledger.append({ type: 'deposit' }, 1000, null, balance);
+  for (let round = 1; round <= 400; round++) {
+    balance = Math.round((balance - 1.1) * 100) / 100;
+    ledger.append({ type: 'bet', stake: 1.1 }, -1.1, round, balance);
+  }
+  // Nothing is dropped from the ledger itself
+  assert.equal(ledger.transactions.length, 401);
+
+  const reloaded = Ledger.load(storage);
+  const [first, ...rest] = reloaded.transactions;
+  assert.equal(first.type, 'carried_forward');
+  assert.equal(first.type === 'carried_forward' && first.entries + rest.length, 401);
+  assert.equal(reloaded.balance, ledger.balance);
+  assert.equal(reloaded.lastRound, 400);
+  assert.equal(rest[0].id, first.id + 1);
+  assertChain(reloaded.transactions);
+});
+
+test('an unreadable ledger is kept aside and a new one starts', () => {
+  const storage = memoryStorage();
+  storage.items.set(LEDGER_STORAGE_KEY, '{not json');
+  const ledger = Ledger.load(storage);
+  assert.ok(ledger.isEmpty);
+  assert.equal(storage.items.get(`${LEDGER_STORAGE_KEY}.corrupt`), '{not json');
+});
@@ -0,0 +1,196 @@
+import type { BoosterType } from './Boosters';
+import type { TournamentStatus } from './Tournament';
+
+export const LEDGER_STORAGE_KEY = 'circle-warriors.ledger';
+export const LEDGER_VERSION = 1;
+
+/** What moved the balance, with the details that type carries. */
+export type TransactionDetail =
+  | { type: 'deposit' }
+  | { type: 'bet'; stake: number }
+  | { type: 'booster'; booster: BoosterType; midRound: boolean }
+  /** A round's hit rewards and damage penalties, netted into one entry. */
+  | { type: 'damage'; rewards: number; penalties: number }
+  /** What the win multiplier and win bonus added on top of the damage summary. */
+  | { type: 'win_payout'; multiplier: number; bonus: number }
+  | { type: 'side_bet'; bets: number }
+  | { type: 'side_bet_return' }
+  | { type: 'tournament_buy_in' }
+  | { type: 'tournament_payout'; status: TournamentStatus }
+  /** Older entries folded together to fit the stored copy in the quota. */
+  | { type: 'carried_forward'; entries: number };
+
+export type TransactionType = TransactionDetail['type'];
+
+export type Transaction = TransactionDetail & {
+  /** 1-based position in the ledger; a carried-forward entry has the last one it folds. */
+  id: number;
+  /** Epoch milliseconds. */
+  time: number;
+  /** Sequence number of the round it belongs to; null outside a round. */
+  round: number | null;
+  /** Signed change to the balance. */
+  amount: number;
+  /** Balance after it. */
+  balance: number;
+};
+
+/** The part of the Web Storage API the ledger needs. */
+export interface LedgerStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+interface StoredLedger {
+  version: number;
+  transactions: Transaction[];
+}
+
+const CSV_COLUMNS = ['id', 'time', 'round', 'type', 'amount', 'balance', 'details'] as const;
+
+/** Fields beyond the common ones, as "key=value" pairs for the CSV details column. */
+function detailsOf(tx: Transaction): string {
+  const { id, time, round, type, amount, balance, ...rest } = tx;
+  return Object.entries(rest).map(([k, v]) => `${k}=${v}`).join(' ');
+}
+
+/**
+ * Fold the first `count` entries into one carried-forward entry with their
+ * net amount and the balance the last of them left, so the balance chain
+ * reads the same across it.
+ */
+function carryForward(entries: readonly Transaction[], count: number): Transaction[] {
+  const folded = entries.slice(0, count);
+  const last = folded[folded.length - 1];
+  const summary: Transaction = {
+    type:    'carried_forward',
+    entries: folded.reduce((n, tx) => n + (tx.type === 'carried_forward' ? tx.entries : 1), 0),
+    id:      last.id,
+    time:    last.time,
+    round:   last.round,
+    amount:  last.balance - (folded[0].balance - folded[0].amount),
+    balance: last.balance,
+  };
+  return [summary, ...entries.slice(count)];
+}
+
+/**
+ * Append-only record of every balance movement, mirrored to storage after
+ * each entry so a reload can rebuild the balance from it. Entries are never
+ * edited or dropped. Only when the stored copy outgrows the quota are its
+ * oldest entries folded into one carried-forward entry; the ledger in
+ * memory, and its export, keep them all until the next reload.
+ */
+export class Ledger {
+  private entries: Transaction[];
+  private listeners: ((tx: Transaction) => void)[] = [];
+
+  constructor(
+    private storage: LedgerStorage | null = null,
+    private key = LEDGER_STORAGE_KEY,
+    entries: Transaction[] = [],
+  ) {
+    this.entries = entries;
+  }
+
+  /**
+   * Read a ledger back from storage. An unreadable one is kept aside under
+   * `<key>.corrupt` and a fresh ledger starts in its place.
+   */
+  static load(storage: LedgerStorage, key = LEDGER_STORAGE_KEY): Ledger {
+    const raw = storage.getItem(key);
+    if (raw === null) return new Ledger(storage, key);
+    try {
+      const stored = JSON.parse(raw) as StoredLedger;
+      if (stored?.version !== LEDGER_VERSION || !Array.isArray(stored.transactions)) {
+        throw new Error(`Unsupported ledger version ${stored?.version}`);
+      }
+      const bad = stored.transactions.find(tx => typeof tx.amount !== 'number' || typeof tx.type !== 'string');
+      if (bad) throw new Error(`Malformed ledger entry ${JSON.stringify(bad)}`);
+      return new Ledger(storage, key, stored.transactions);
+    } catch (err) {
+      console.warn('Could not read the ledger, starting a new one:', err);
+      try {
+        storage.setItem(`${key}.corrupt`, raw);
+      } catch (saveErr) {
+        console.warn('Could not keep the unreadable ledger aside:', saveErr);
+      }
+      return new Ledger(storage, key);
+    }
+  }
+
+  get transactions(): readonly Transaction[] {
+    return this.entries;
+  }
+
+  get isEmpty(): boolean {
+    return this.entries.length === 0;
+  }
+
+  /** Balance after the last entry (0 when empty). */
+  get balance(): number {
+    return this.entries[this.entries.length - 1]?.balance ?? 0;
+  }
+
+  /** Highest round number used so far (0 before the first round). */
+  get lastRound(): number {
+    return this.entries.reduce((max, tx) => Math.max(max, tx.round ?? 0), 0);
+  }
+
+  /**
+   * `balance` is the one the entry left, as the Economy holds it, rather
+   * than a running sum here that would pick up floating-point error.
+   */
+  append(detail: TransactionDetail, amount: number, round: number | null, balance: number): Transaction {
+    const tx: Transaction = {
+      ...detail,
+      id: (this.entries[this.entries.length - 1]?.id ?? 0) + 1,
+      time: Date.now(),
+      round,
+      amount,
+      balance,
+    };
+    this.entries.push(tx);
+    this.save();
+    for (const fn of this.listeners.slice()) fn(tx);
+    return tx;
+  }
+
+  /** Called after every appended entry. Returns an unsubscribe function. */
+  subscribe(fn: (tx: Transaction) => void): () => void {
+    this.listeners.push(fn);
+    return () => { this.listeners = this.listeners.filter(l => l !== fn); };
+  }
+
+  toJson(): string {
+    const stored: StoredLedger = { version: LEDGER_VERSION, transactions: this.entries };
+    return JSON.stringify(stored, null, 2);
+  }
+
+  toCsv(): string {
+    const rows = this.entries.map(tx => [
+      tx.id, new Date(tx.time).toISOString(), tx.round ?? '', tx.type, tx.amount, tx.balance, `"${detailsOf(tx)}"`,
+    ].join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+
+  /** Store the ledger, folding the older half of the stored copy until it fits. */
+  private save(): void {
+    if (!this.storage) return;
+    let transactions = this.entries;
+    for (;;) {
+      const stored: StoredLedger = { version: LEDGER_VERSION, transactions };
+      try {
+        this.storage.setItem(this.key, JSON.stringify(stored));
+        return;
+      } catch (err) {
+        if (transactions.length <= 2) {
+          // Private mode, or no room at all: the session goes on, only the reload copy is lost
+          console.warn('Could not save the ledger:', err);
+          return;
+        }
+        transactions = carryForward(transactions, Math.ceil(transactions.length / 2));
+      }
+    }
+  }
+}
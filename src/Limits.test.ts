@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SessionLimits, LIMITS_STORAGE_KEY, SESSION_BREAK_MS } from './Limits';
+import { Ledger, LedgerStorage } from './Ledger';
+import { Economy } from './Economy';
+import { CurrencyConfig, DEFAULT_CURRENCY } from './Money';
+
+function memoryStorage(): LedgerStorage {
+  const items = new Map<string, string>();
+  return { getItem: (key) => items.get(key) ?? null, setItem: (key, value) => void items.set(key, value) };
+}
+
+/** Limits on a clock the test moves by hand, starting at 09:00 local time. */
+function setup(currency: CurrencyConfig = DEFAULT_CURRENCY) {
+  const clock = { ms: new Date(2026, 0, 15, 9, 0).getTime() };
+  const storage = memoryStorage();
+  const limits = SessionLimits.load(storage, currency, LIMITS_STORAGE_KEY, () => clock.ms);
+  limits.setLimits({ lossLimit: null, wagerLimit: null, timeLimitMin: null, realityCheckMin: null });
+  return { limits, storage, clock };
+}
+
+test('totals meet a limit exactly in minor units', () => {
+  const { limits } = setup();
+  limits.setLimits({ lossLimit: null, wagerLimit: 0.3, timeLimitMin: null, realityCheckMin: null });
+  limits.recordPlay(0.1, -0.1);
+  limits.recordPlay(0.2, -0.2);
+
+  // 0.1 + 0.2 is 0.30000000000000004 in floating point
+  assert.equal(limits.wagered, 0.3);
+  assert.equal(limits.net, -0.3);
+  assert.equal(limits.check(0), null);
+  assert.equal(limits.check(0.01)?.reason, 'wager_limit');
+});
+
+test('totals follow the currency\'s minor unit', () => {
+  const { limits } = setup({ ...DEFAULT_CURRENCY, decimals: 0 });
+  limits.recordPlay(10, -10);
+  limits.recordPlay(0, 4);
+  assert.equal(limits.wagered, 10);
+  assert.equal(limits.net, -6);
+});
+
+test('ledger entries count towards the wager and loss totals', () => {
+  const { limits } = setup();
+  const economy = new Economy(1000, undefined, new Ledger());
+  economy.ledger!.subscribe((tx) => limits.record(tx));
+  economy.startRound(2, 'ffa', 'shield');
+  economy.finaliseRound(false);
+
+  assert.equal(limits.wagered, economy.roundBet + 1);
+  assert.equal(limits.net, economy.balance - 1000);
+});
+
+test('the loss limit refuses a stake that could pass it', () => {
+  const { limits } = setup();
+  limits.setLimits({ lossLimit: 20, wagerLimit: null, timeLimitMin: null, realityCheckMin: null });
+  limits.recordPlay(15, -15);
+  assert.equal(limits.check(5), null);
+  assert.deepEqual(limits.check(5.01), { reason: 'loss_limit', limit: 20 });
+});
+
+test('a break keeps the day\'s totals and leaves the break out of play time', () => {
+  const { limits, storage, clock } = setup();
+  limits.setLimits({ lossLimit: 20, wagerLimit: null, timeLimitMin: 30, realityCheckMin: null });
+  limits.recordPlay(10, -10);
+  clock.ms += 20 * 60_000;
+  limits.recordPlay(9, -9);
+  assert.equal(limits.sessionMs, 20 * 60_000);
+
+  clock.ms += SESSION_BREAK_MS + 60_000;
+  const reloaded = SessionLimits.load(storage, DEFAULT_CURRENCY, LIMITS_STORAGE_KEY, () => clock.ms);
+  assert.equal(reloaded.net, -19);
+  assert.equal(reloaded.sessionMs, 20 * 60_000);
+  assert.deepEqual(reloaded.check(2), { reason: 'loss_limit', limit: 20 });
+
+  reloaded.recordPlay(0, 0);
+  clock.ms += 10 * 60_000;
+  assert.deepEqual(reloaded.check(0), { reason: 'time_limit', minutes: 30 });
+});
+
+test('the next day starts new totals with any loosened limits', () => {
+  const { limits, clock } = setup();
+  limits.setLimits({ lossLimit: 20, wagerLimit: null, timeLimitMin: null, realityCheckMin: null });
+  limits.recordPlay(20, -20);
+  limits.setLimits({ lossLimit: 50, wagerLimit: null, timeLimitMin: null, realityCheckMin: null });
+  assert.equal(limits.settings.lossLimit, 20);
+  assert.equal(limits.check(1)?.reason, 'loss_limit');
+
+  clock.ms += 24 * 3_600_000;
+  assert.equal(limits.check(1), null);
+  assert.equal(limits.net, 0);
+  assert.equal(limits.settings.lossLimit, 50);
+});
@@ -0,0 +1,279 @@
+import type { LedgerStorage, Transaction, TransactionType } from './Ledger';
+import { CurrencyConfig, DEFAULT_CURRENCY, Minor, toMajor, toMinor } from './Money';
+
+export const LIMITS_STORAGE_KEY = 'circle-warriors.limits';
+export const LIMITS_VERSION = 3;
+/** A gap between stakes at least this long is a break, and not counted as time played. */
+export const SESSION_BREAK_MS = 30 * 60_000;
+/** Cool-off lengths the player can pick from, in hours. */
+export const COOL_OFF_HOURS: readonly number[] = [1, 24, 24 * 7, 24 * 30];
+
+/** Ledger entries that count towards the wager limit. */
+const WAGER_TYPES: readonly TransactionType[] = ['bet', 'booster', 'side_bet', 'tournament_buy_in'];
+
+/** Player-set limits; null leaves one off. */
+export interface LimitSettings {
+  /** Most the session may lose, net, in FUN. */
+  lossLimit: number | null;
+  /** Most the session may stake, in FUN: bets, boosters, side bets and buy-ins. */
+  wagerLimit: number | null;
+  /** Minutes of play after which the session takes no more stakes. */
+  timeLimitMin: number | null;
+  /** Minutes between reality checks. */
+  realityCheckMin: number | null;
+}
+
+export const DEFAULT_LIMITS: LimitSettings = {
+  lossLimit:       null,
+  wagerLimit:      null,
+  timeLimitMin:    null,
+  realityCheckMin: 60,
+};
+
+/** Totals for one session: a calendar day, in local time. */
+export interface SessionTotals {
+  /** Epoch milliseconds. */
+  startedAt: number;
+  lastActiveAt: number;
+  lastRealityCheckAt: number;
+  /** Time played up to lastActiveAt, breaks left out. */
+  playedMs: number;
+  wagered: Minor;
+  /** Sum of every non-deposit ledger amount; negative is a loss. */
+  net: Minor;
+}
+
+/** Why a stake was refused. */
+export type LimitBlock =
+  | { reason: 'cool_off'; until: number }
+  | { reason: 'reality_check' }
+  | { reason: 'time_limit'; minutes: number }
+  | { reason: 'wager_limit'; limit: number }
+  | { reason: 'loss_limit'; limit: number };
+
+interface StoredLimits {
+  version: number;
+  settings: LimitSettings;
+  /** Loosened limits, waiting for the next session. */
+  pending: Partial<LimitSettings>;
+  session: SessionTotals;
+  coolOffUntil: number | null;
+}
+
+export function describeBlock(block: LimitBlock): string {
+  switch (block.reason) {
+    case 'cool_off':      return `Cooling off until ${new Date(block.until).toLocaleString()}`;
+    case 'reality_check': return 'Confirm the reality check to keep playing';
+    case 'time_limit':    return `Daily time limit of ${block.minutes} min reached`;
+    case 'wager_limit':   return `Daily wager limit of ${block.limit} FUN reached`;
+    case 'loss_limit':    return `Daily loss limit of ${block.limit} FUN reached`;
+  }
+}
+
+/** "1 h 05 min" style, for session lengths. */
+export function formatDuration(ms: number): string {
+  const min = Math.floor(ms / 60_000);
+  return min >= 60 ? `${Math.floor(min / 60)} h ${String(min % 60).padStart(2, '0')} min` : `${min} min`;
+}
+
+/** Whether limit `a` lets through no more than `b`; null is no limit. */
+function noLooser(a: number | null, b: number | null): boolean {
+  return b === null || (a !== null && a <= b);
+}
+
+function newSession(now: number): SessionTotals {
+  return { startedAt: now, lastActiveAt: now, lastRealityCheckAt: now, playedMs: 0, wagered: 0, net: 0 };
+}
+
+function sameDay(a: number, b: number): boolean {
+  return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+/**
+ * Loss, wager and time limits, reality checks and cool-off for the
+ * player's session, fed from the ledger or the game server's rounds, and
+ * mirrored to storage so a reload doesn't reset them. A session is a
+ * calendar day, so a break doesn't reset the totals. Tightening a limit
+ * applies at once; loosening one waits for the next session.
+ */
+export class SessionLimits {
+  private state: StoredLimits;
+
+  constructor(
+    private storage: LedgerStorage | null = null,
+    private currency: CurrencyConfig = DEFAULT_CURRENCY,
+    private key = LIMITS_STORAGE_KEY,
+    private now: () => number = Date.now,
+    state?: StoredLimits,
+  ) {
+    this.state = state ?? {
+      version: LIMITS_VERSION, settings: { ...DEFAULT_LIMITS }, pending: {}, session: newSession(now()), coolOffUntil: null,
+    };
+  }
+
+  /**
+   * Read the limits back from storage; unreadable ones are replaced by the
+   * defaults. A session from an earlier day is closed on the way.
+   */
+  static load(
+    storage: LedgerStorage,
+    currency: CurrencyConfig = DEFAULT_CURRENCY,
+    key = LIMITS_STORAGE_KEY,
+    now: () => number = Date.now,
+  ): SessionLimits {
+    const raw = storage.getItem(key);
+    let limits = new SessionLimits(storage, currency, key, now);
+    if (raw !== null) {
+      try {
+        const stored = JSON.parse(raw) as StoredLimits;
+        // Version 2 had the same settings and cool-off; its sessions kept no play time apart
+        if (stored?.version === 2) {
+          stored.session.playedMs = stored.session.lastActiveAt - stored.session.startedAt;
+          stored.version = LIMITS_VERSION;
+        }
+        if (stored?.version !== LIMITS_VERSION) throw new Error(`Unsupported limits version ${stored?.version}`);
+        limits = new SessionLimits(storage, currency, key, now, stored);
+      } catch (err) {
+        console.warn('Could not read the limits, using the defaults:', err);
+      }
+    }
+    limits.refresh();
+    limits.save();
+    return limits;
+  }
+
+  get settings(): Readonly<LimitSettings> {
+    return this.state.settings;
+  }
+
+  get pending(): Readonly<Partial<LimitSettings>> {
+    return this.state.pending;
+  }
+
+  get session(): Readonly<SessionTotals> {
+    return this.state.session;
+  }
+
+  /** Staked this session, in major units. */
+  get wagered(): number {
+    return toMajor(this.state.session.wagered, this.currency);
+  }
+
+  /** Net result of the session, in major units; negative is a loss. */
+  get net(): number {
+    return toMajor(this.state.session.net, this.currency);
+  }
+
+  get coolOffUntil(): number | null {
+    const until = this.state.coolOffUntil;
+    return until !== null && until > this.now() ? until : null;
+  }
+
+  /** Time played this session; the gap since the last stake counts unless it is a break. */
+  get sessionMs(): number {
+    const { playedMs, lastActiveAt } = this.state.session;
+    const since = this.now() - lastActiveAt;
+    return since < SESSION_BREAK_MS ? playedMs + since : playedMs;
+  }
+
+  setLimits(next: LimitSettings): void {
+    const { settings, pending } = this.state;
+    for (const k of ['lossLimit', 'wagerLimit', 'timeLimitMin'] as const) {
+      if (noLooser(next[k], settings[k])) {
+        settings[k] = next[k];
+        delete pending[k];
+      } else {
+        pending[k] = next[k];
+      }
+    }
+    // The reality check restricts nothing, so it changes either way
+    settings.realityCheckMin = next.realityCheckMin;
+    this.save();
+  }
+
+  /** Lock out every stake for `hours`. There is no way to end it early. */
+  startCoolOff(hours: number): void {
+    const until = this.now() + hours * 3_600_000;
+    this.state.coolOffUntil = Math.max(this.state.coolOffUntil ?? 0, until);
+    this.save();
+  }
+
+  get realityCheckDue(): boolean {
+    const min = this.state.settings.realityCheckMin;
+    return min !== null && this.now() - this.state.session.lastRealityCheckAt >= min * 60_000;
+  }
+
+  acknowledgeRealityCheck(): void {
+    this.state.session.lastRealityCheckAt = this.now();
+    this.save();
+  }
+
+  /**
+   * Whether a stake of `cost` may be taken now, or what stops it. A running
+   * round can still end past the loss limit on damage penalties; only the
+   * next stake is refused.
+   */
+  check(cost: number): LimitBlock | null {
+    this.refresh();
+    const { settings, session } = this.state;
+    const coolOff = this.coolOffUntil;
+    if (coolOff !== null) return { reason: 'cool_off', until: coolOff };
+    if (this.realityCheckDue) return { reason: 'reality_check' };
+    if (settings.timeLimitMin !== null && this.sessionMs >= settings.timeLimitMin * 60_000) {
+      return { reason: 'time_limit', minutes: settings.timeLimitMin };
+    }
+    const costMinor = toMinor(cost, this.currency);
+    if (settings.wagerLimit !== null && session.wagered + costMinor > toMinor(settings.wagerLimit, this.currency)) {
+      return { reason: 'wager_limit', limit: settings.wagerLimit };
+    }
+    if (settings.lossLimit !== null && -session.net + costMinor > toMinor(settings.lossLimit, this.currency)) {
+      return { reason: 'loss_limit', limit: settings.lossLimit };
+    }
+    return null;
+  }
+
+  /** Count a ledger entry towards the session. */
+  record(tx: Transaction): void {
+    if (tx.type === 'deposit') return;
+    const amount = toMinor(tx.amount, this.currency);
+    this.count(WAGER_TYPES.includes(tx.type) ? -amount : 0, amount);
+  }
+
+  /**
+   * Count play that never reaches the ledger, as on a game server: `staked`
+   * towards the wager total and `net` towards the result, in major units.
+   */
+  recordPlay(staked: number, net: number): void {
+    this.count(toMinor(staked, this.currency), toMinor(net, this.currency));
+  }
+
+  /** Add to the totals in minor units, so they meet a limit exactly. */
+  private count(staked: Minor, net: Minor): void {
+    this.refresh();
+    const s = this.state.session;
+    s.wagered += staked;
+    s.net += net;
+    s.playedMs = this.sessionMs;
+    s.lastActiveAt = this.now();
+    this.save();
+  }
+
+  /** Start a new session, with any loosened limits, once the day has turned. */
+  refresh(): void {
+    const now = this.now();
+    if (sameDay(now, this.state.session.startedAt)) return;
+    this.state.settings = { ...this.state.settings, ...this.state.pending };
+    this.state.pending = {};
+    this.state.session = newSession(now);
+    this.save();
+  }
+
+  private save(): void {
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(this.key, JSON.stringify(this.state));
+    } catch (err) {
+      console.warn('Could not save the limits:', err);
+    }
+  }
+}
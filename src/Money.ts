@@ -0,0 +1,72 @@
+/**
+ * How an amount that falls between two minor units is rounded:
+ * - half_even: to the nearest, ties to the even unit (banker's rounding)
+ * - half_up:   to the nearest, ties away from zero
+ * - floor:     always down, so a fraction of a unit is never paid out
+ */
+export type RoundingMode = 'half_even' | 'half_up' | 'floor';
+
+export interface CurrencyConfig {
+  code: string;
+  /** Digits after the decimal point: one major unit is 10^decimals minor units. */
+  decimals: number;
+  /** Applied wherever a multiplier or stake scale lands between minor units. */
+  rounding: RoundingMode;
+}
+
+export const DEFAULT_CURRENCY: CurrencyConfig = {
+  code:     'FUN',
+  decimals: 2,
+  rounding: 'half_even',
+};
+
+/**
+ * An integer count of minor units. Money is added and compared only in
+ * these; major-unit numbers are for input and display.
+ */
+export type Minor = number;
+
+/** Products like 1.1 × 100 land a hair off the exact value; this much off is the exact value. */
+const EPSILON = 1e-9;
+
+/** Round a real number of minor units to a whole one by `mode`. */
+export function roundMinor(x: number, mode: RoundingMode): Minor {
+  const nearest = Math.round(x);
+  if (Math.abs(x - nearest) < EPSILON) return nearest;
+  const floor = Math.floor(x);
+  const tie = Math.abs(x - floor - 0.5) < EPSILON;
+  switch (mode) {
+    case 'floor':     return floor;
+    case 'half_up':   return tie ? (x > 0 ? floor + 1 : floor) : nearest;
+    case 'half_even': return tie ? (floor % 2 === 0 ? floor : floor + 1) : nearest;
+  }
+}
+
+export function minorPerMajor(currency: CurrencyConfig = DEFAULT_CURRENCY): number {
+  return 10 ** currency.decimals;
+}
+
+export function toMinor(major: number, currency: CurrencyConfig = DEFAULT_CURRENCY): Minor {
+  return roundMinor(major * minorPerMajor(currency), currency.rounding);
+}
+
+export function toMajor(minor: Minor, currency: CurrencyConfig = DEFAULT_CURRENCY): number {
+  return minor / minorPerMajor(currency);
+}
+
+/** `minor` × `factor`, rounded by the currency's policy. */
+export function scaleMinor(minor: Minor, factor: number, currency: CurrencyConfig = DEFAULT_CURRENCY): Minor {
+  return roundMinor(minor * factor, currency.rounding);
+}
+
+/** "12.50", or "+12.50" with `signed` for a change in balance. */
+export function formatAmount(major: number, currency: CurrencyConfig = DEFAULT_CURRENCY, signed = false): string {
+  const minor = toMinor(major, currency);
+  const sign = minor < 0 ? '-' : signed ? '+' : '';
+  return `${sign}${toMajor(Math.abs(minor), currency).toFixed(currency.decimals)}`;
+}
+
+/** formatAmount with the currency code after it: "12.50 FUN". */
+export function formatMoney(major: number, currency: CurrencyConfig = DEFAULT_CURRENCY, signed = false): string {
+  return `${formatAmount(major, currency, signed)} ${currency.code}`;
+}
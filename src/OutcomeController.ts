@@ -37,27 +37,235 @@ const NEUTRAL_PARAMS: OutcomeParams = {
   targetWin: false,
 };
 
+/** The two param sets the controller flips between. */
+export interface OutcomeConfig {
+  win: OutcomeParams;
+  lose: OutcomeParams;
+}
+
+export const DEFAULT_OUTCOME_CONFIG: OutcomeConfig = {
+  win: WIN_PARAMS,
+  lose: LOSE_PARAMS,
+};
+
+export type StrategyName = 'neutral' | 'fixed' | 'adaptive';
+
+/** What a strategy chose for one round, and why. */
+export interface OutcomeDecision {
+  strategy: StrategyName;
+  params: OutcomeParams;
+  /** Strategy inputs behind the choice, e.g. the win probability it used. */
+  details: Record<string, number>;
+}
+
+/** A settled round, fed back so stateful strategies can learn from it. */
+export interface RoundSettlement {
+  wagered: number;
+  returned: number;
+  win: boolean;
+}
+
+/**
+ * Picks the outcome params for each round. decide() is handed the round's
+ * 'outcome' stream, so whatever a strategy draws never shifts the spawn
+ * or combat rolls.
+ */
+export interface OutcomeStrategy {
+  readonly name: StrategyName;
+  decide(rng: Rng): OutcomeDecision;
+  recordResult?(settlement: RoundSettlement): void;
+}
+
+/** No nudges at all — the physics alone decides. */
+export class NeutralStrategy implements OutcomeStrategy {
+  readonly name = 'neutral' as const;
+
+  decide(_rng: Rng): OutcomeDecision {
+    return { strategy: this.name, params: { ...NEUTRAL_PARAMS }, details: {} };
+  }
+}
+
+/** Flip a coin with a fixed win probability between the WIN and LOSE params. */
+export class FixedProbabilityStrategy implements OutcomeStrategy {
+  readonly name = 'fixed' as const;
+  winProbability: number;
+
+  constructor(winProbability = 0.8, private config: OutcomeConfig = DEFAULT_OUTCOME_CONFIG) {
+    this.winProbability = clamp01(winProbability);
+  }
+
+  decide(rng: Rng): OutcomeDecision {
+    const targetWin = rng.next() < this.winProbability;
+    return {
+      strategy: this.name,
+      params: targetWin ? { ...this.config.win } : { ...this.config.lose },
+      details: { winProbability: this.winProbability },
+    };
+  }
+}
+
+export interface AdaptiveOptions {
+  /** Session RTP band the strategy steers into. */
+  targetLow: number;
+  targetHigh: number;
+  /** Win probability change per unit of RTP outside the band. */
+  gain: number;
+  minProbability: number;
+  maxProbability: number;
+  /** Settled rounds before steering kicks in. */
+  warmupRounds: number;
+}
+
+export const DEFAULT_ADAPTIVE_OPTIONS: AdaptiveOptions = {
+  targetLow: 0.93,
+  targetHigh: 0.97,
+  gain: 2,
+  minProbability: 0.1,
+  maxProbability: 0.9,
+  warmupRounds: 10,
+};
+
+/**
+ * Fixed-probability coin flip whose win probability is steered by the
+ * realised session RTP: raised while the player is below the target band,
+ * lowered while above it, left at the base inside it.
+ */
+export class AdaptiveStrategy implements OutcomeStrategy {
+  readonly name = 'adaptive' as const;
+  baseProbability: number;
+  readonly options: AdaptiveOptions;
+
+  private wagered = 0;
+  private returned = 0;
+  private rounds = 0;
+
+  constructor(
+    baseProbability = 0.5,
+    options: Partial<AdaptiveOptions> = {},
+    private config: OutcomeConfig = DEFAULT_OUTCOME_CONFIG,
+  ) {
+    this.baseProbability = clamp01(baseProbability);
+    this.options = { ...DEFAULT_ADAPTIVE_OPTIONS, ...options };
+  }
+
+  get sessionRtp(): number {
+    return this.wagered > 0 ? this.returned / this.wagered : 0;
+  }
+
+  /** Win probability the next round will use. */
+  currentProbability(): number {
+    const o = this.options;
+    if (this.rounds < o.warmupRounds) return this.baseProbability;
+
+    const rtp = this.sessionRtp;
+    let p = this.baseProbability;
+    if (rtp < o.targetLow)  p += o.gain * (o.targetLow - rtp);
+    if (rtp > o.targetHigh) p -= o.gain * (rtp - o.targetHigh);
+    return Math.max(o.minProbability, Math.min(o.maxProbability, p));
+  }
+
+  decide(rng: Rng): OutcomeDecision {
+    const winProbability = this.currentProbability();
+    const targetWin = rng.next() < winProbability;
+    return {
+      strategy: this.name,
+      params: targetWin ? { ...this.config.win } : { ...this.config.lose },
+      details: { winProbability, sessionRtp: this.sessionRtp, sessionRounds: this.rounds },
+    };
+  }
+
+  recordResult(s: RoundSettlement): void {
+    this.wagered  += s.wagered;
+    this.returned += s.returned;
+    this.rounds++;
+  }
+}
+
+function clamp01(p: number): number {
+  return Math.max(0, Math.min(1, p));
+}
+
+/** Build a built-in strategy by name. */
+export function createStrategy(
+  name: StrategyName,
+  winProbability: number,
+  config: OutcomeConfig = DEFAULT_OUTCOME_CONFIG,
+  adaptive: Partial<AdaptiveOptions> = {},
+): OutcomeStrategy {
+  switch (name) {
+    case 'neutral':  return new NeutralStrategy();
+    case 'fixed':    return new FixedProbabilityStrategy(winProbability, config);
+    case 'adaptive': return new AdaptiveStrategy(winProbability, adaptive, config);
+  }
+}
+
 export class OutcomeController {
   private winProbability: number = 0.8;
+  private config: OutcomeConfig;
+  private strategy: OutcomeStrategy;
+
+  constructor(config: OutcomeConfig = DEFAULT_OUTCOME_CONFIG, strategy?: OutcomeStrategy) {
+    this.config = config;
+    this.strategy = strategy ?? new FixedProbabilityStrategy(this.winProbability, config);
+  }
+
+  /** Swap strategy by name, carrying over the current win probability. */
+  useStrategy(name: StrategyName, adaptive: Partial<AdaptiveOptions> = {}): void {
+    this.strategy = createStrategy(name, this.winProbability, this.config, adaptive);
+  }
+
+  setStrategy(strategy: OutcomeStrategy): void {
+    this.strategy = strategy;
+  }
+
+  getStrategy(): OutcomeStrategy {
+    return this.strategy;
+  }
 
+  /** Sets the fixed strategy's probability, or the adaptive strategy's base. */
   setWinProbability(p: number): void {
-    this.winProbability = Math.max(0, Math.min(1, p));
+    this.winProbability = clamp01(p);
+    const s = this.strategy;
+    if (s instanceof FixedProbabilityStrategy) s.winProbability = this.winProbability;
+    if (s instanceof AdaptiveStrategy) s.baseProbability = this.winProbability;
   }
 
   getWinProbability(): number {
     return this.winProbability;
   }
 
-  /**
-   * Sample outcome params for a new round using the provided RNG.
-   */
+  /** Choose outcome params for a new round using the provided RNG. */
+  decide(rng: Rng): OutcomeDecision {
+    return this.strategy.decide(rng);
+  }
+
+  /** Sample outcome params for a new round using the provided RNG. */
   sampleParams(rng: Rng): OutcomeParams {
-    const targetWin = rng.next() < this.winProbability;
-    return targetWin ? { ...WIN_PARAMS } : { ...LOSE_PARAMS };
+    return this.decide(rng).params;
+  }
+
+  /** Report a settled round to the active strategy. */
+  recordResult(settlement: RoundSettlement): void {
+    this.strategy.recordResult?.(settlement);
   }
 
   /** Neutral params (for headless simulation baseline). */
   static neutral(): OutcomeParams {
     return { ...NEUTRAL_PARAMS };
   }
+
+  /**
+   * Scale every nudge's distance from neutral by `strength`
+   * (0 = no bias, 1 = the given config unchanged).
+   */
+  static scaled(strength: number, base: OutcomeConfig = DEFAULT_OUTCOME_CONFIG): OutcomeConfig {
+    const scale = (p: OutcomeParams): OutcomeParams => ({
+      playerWeaponAssist:    NEUTRAL_PARAMS.playerWeaponAssist    + strength * (p.playerWeaponAssist    - NEUTRAL_PARAMS.playerWeaponAssist),
+      playerDealBonusDamage: NEUTRAL_PARAMS.playerDealBonusDamage + strength * (p.playerDealBonusDamage - NEUTRAL_PARAMS.playerDealBonusDamage),
+      playerTakeDamageDelta: NEUTRAL_PARAMS.playerTakeDamageDelta + strength * (p.playerTakeDamageDelta - NEUTRAL_PARAMS.playerTakeDamageDelta),
+      playerSpeedMul:        NEUTRAL_PARAMS.playerSpeedMul        + strength * (p.playerSpeedMul        - NEUTRAL_PARAMS.playerSpeedMul),
+      targetWin: p.targetWin,
+    });
+    return { win: scale(base.win), lose: scale(base.lose) };
+  }
 }
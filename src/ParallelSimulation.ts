@@ -0,0 +1,112 @@
+/**
+ * Multi-core simulation on Node worker_threads.
+ *
+ * A configuration's seed range is cut into fixed CHUNK_ROUNDS chunks that
+ * idle workers pull one at a time. Chunk aggregates are merged in chunk
+ * order, so the result is bit-identical to `simulate()` for any pool size.
+ *
+ * This module is both the pool (main thread) and the worker entry point.
+ */
+
+import { Worker, isMainThread, parentPort } from 'node:worker_threads';
+import { availableParallelism } from 'node:os';
+import { fileURLToPath } from 'node:url';
+import {
+  SimConfig, SimAggregate, SimSummary, Z_SCORES,
+  chunkCount, chunkRange, mergeChunks, simulateRange, summarise,
+} from './Simulation.js';
+
+interface ChunkJob {
+  cfg: SimConfig;
+  chunk: number;
+}
+
+export function defaultWorkerCount(): number {
+  return availableParallelism();
+}
+
+/**
+ * Start a worker running this module. Workers don't inherit tsx's loader,
+ * so when running from source the worker registers it before loading us.
+ */
+function spawnWorker(): Worker {
+  const file = fileURLToPath(import.meta.url);
+  if (!file.endsWith('.ts')) return new Worker(file);
+  return new Worker(`require('tsx/cjs'); require(${JSON.stringify(file)});`, { eval: true });
+}
+
+export class SimulationPool {
+  private workers: Worker[] = [];
+
+  constructor(size = defaultWorkerCount()) {
+    for (let i = 0; i < Math.max(1, size); i++) {
+      this.workers.push(spawnWorker());
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  async run(cfg: SimConfig): Promise<SimAggregate> {
+    const total = chunkCount(cfg.rounds);
+    const chunks: SimAggregate[] = new Array(total);
+    let next = 0;
+
+    await Promise.all(this.workers.map(async (worker) => {
+      while (next < total) {
+        const chunk = next++;
+        chunks[chunk] = await this.request(worker, { cfg, chunk });
+      }
+    }));
+
+    return mergeChunks(chunks);
+  }
+
+  async simulate(cfg: SimConfig, z = Z_SCORES['0.95']): Promise<SimSummary> {
+    return summarise(cfg, await this.run(cfg), z);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map(w => w.terminate()));
+    this.workers = [];
+  }
+
+  /** Each worker has at most one job in flight, so one-shot listeners suffice. */
+  private request(worker: Worker, job: ChunkJob): Promise<SimAggregate> {
+    return new Promise((resolve, reject) => {
+      const onMessage = (agg: SimAggregate): void => {
+        worker.off('error', onError);
+        resolve(agg);
+      };
+      const onError = (err: Error): void => {
+        worker.off('message', onMessage);
+        reject(err);
+      };
+      worker.once('message', onMessage);
+      worker.once('error', onError);
+      worker.postMessage(job);
+    });
+  }
+}
+
+/** Run one configuration on a temporary pool. */
+export async function simulateParallel(
+  cfg: SimConfig,
+  workers = defaultWorkerCount(),
+  z = Z_SCORES['0.95'],
+): Promise<SimSummary> {
+  const pool = new SimulationPool(workers);
+  try {
+    return await pool.simulate(cfg, z);
+  } finally {
+    await pool.close();
+  }
+}
+
+if (!isMainThread && parentPort) {
+  const port = parentPort;
+  port.on('message', (job: ChunkJob) => {
+    port.postMessage(simulateRange(job.cfg, ...chunkRange(job.cfg, job.chunk)));
+  });
+}
@@ -3,15 +3,35 @@ import { Arena } from './Arena';
 
 const TWO_R = WARRIOR_RADIUS * 2;
 
+/**
+ * When each kind of contact between a colliding pair first happened, as a
+ * fraction of the step (0 = already touching at its start); null if it didn't.
+ */
+export interface ContactTimes {
+  body: number;
+  /** a's weapon on b's body. */
+  weaponA: number | null;
+  /** b's weapon on a's body. */
+  weaponB: number | null;
+  weapons: number | null;
+}
+
 export interface CollisionPair {
   a: Warrior;
   b: Warrior;
+  /** When the bodies first touched, 0..1 through the step. */
+  toi: number;
+  contact: ContactTimes;
 }
 
-/** Move all warriors by their velocity (dt in seconds). */
+/** Move all warriors by their velocity (dt in seconds), remembering where the step started. */
 export function integrateMotion(warriors: Warrior[], dt: number): void {
   for (const w of warriors) {
     if (!w.alive) continue;
+    w.prevPx      = w.px;
+    w.prevPy      = w.py;
+    w.prevWeaponX = w.weaponX;
+    w.prevWeaponY = w.weaponY;
     w.px += w.vx * dt;
     w.py += w.vy * dt;
     w.updateWeaponPos();
@@ -33,56 +53,278 @@ export function resolveWalls(warriors: Warrior[], arena: Arena): void {
 }
 
 /**
- * Detect and resolve body-body overlaps between warriors.
- * Returns list of colliding pairs for Combat to process.
+ * First time t in [0, 1] at which two circles moving in straight lines
+ * from (a0, b0) to (a1, b1) come within `r` of each other, or null.
  */
-export function resolveWarriorCollisions(warriors: Warrior[]): CollisionPair[] {
-  const pairs: CollisionPair[] = [];
-  const alive = warriors.filter(w => w.alive && !w.dying);
+export function sweptCircleToi(
+  ax0: number, ay0: number, ax1: number, ay1: number,
+  bx0: number, by0: number, bx1: number, by1: number,
+  r: number,
+): number | null {
+  const sx = bx0 - ax0;
+  const sy = by0 - ay0;
+  const c = sx * sx + sy * sy - r * r;
+  if (c <= 0) return 0;
+
+  // Relative displacement over the step
+  const vx = (bx1 - bx0) - (ax1 - ax0);
+  const vy = (by1 - by0) - (ay1 - ay0);
+  const a = vx * vx + vy * vy;
+  const b = sx * vx + sy * vy;
+  if (a < 1e-12 || b >= 0) return null;
+
+  const disc = b * b - a * c;
+  if (disc < 0) return null;
+  const t = (-b - Math.sqrt(disc)) / a;
+  return t <= 1 ? t : null;
+}
+
+/** Largest weapon swing (radians) swept as one straight segment. */
+const MAX_SWEEP_ARC = 0.2;
+
+type Point = [number, number];
+
+/** Weapon angle at the start of the step and how far it swung, the short way round. */
+function swingOf(w: Warrior): [number, number] {
+  const a0 = Math.atan2(w.prevWeaponY - w.prevPy, w.prevWeaponX - w.prevPx);
+  const a1 = Math.atan2(w.weaponY - w.py, w.weaponX - w.px);
+  return [a0, Math.atan2(Math.sin(a1 - a0), Math.cos(a1 - a0))];
+}
+
+/**
+ * Samples a warrior's body and weapon at `steps + 1` even points through the
+ * step. The body moves in a straight line; the weapon swings round it.
+ */
+function samplePath(w: Warrior, steps: number): { body: Point[]; weapon: Point[] } {
+  const [a0, da] = swingOf(w);
+  const body: Point[] = [];
+  const weapon: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const px = w.prevPx + (w.px - w.prevPx) * t;
+    const py = w.prevPy + (w.py - w.prevPy) * t;
+    const angle = a0 + da * t;
+    body.push([px, py]);
+    weapon.push([px + Math.cos(angle) * w.stats.weaponReach, py + Math.sin(angle) * w.stats.weaponReach]);
+  }
+  return { body, weapon };
+}
+
+/** First contact time along two sampled paths, sweeping each segment in turn; null if none. */
+function sweptPathToi(pa: Point[], pb: Point[], r: number): number | null {
+  const n = pa.length - 1;
+  for (let i = 0; i < n; i++) {
+    const t = sweptCircleToi(...pa[i], ...pa[i + 1], ...pb[i], ...pb[i + 1], r);
+    if (t !== null) return (i + t) / n;
+  }
+  return null;
+}
+
+/**
+ * Swept contact times between two warriors over the step just integrated.
+ * Weapons are only swept once the bodies are known to have touched.
+ */
+export function sweptContact(a: Warrior, b: Warrior): ContactTimes | null {
+  const body = sweptCircleToi(a.prevPx, a.prevPy, a.px, a.py, b.prevPx, b.prevPy, b.px, b.py, TWO_R);
+  if (body === null) return null;
+
+  const swing = Math.max(Math.abs(swingOf(a)[1]), Math.abs(swingOf(b)[1]));
+  const steps = Math.max(1, Math.ceil(swing / MAX_SWEEP_ARC));
+  const pa = samplePath(a, steps);
+  const pb = samplePath(b, steps);
+  const wa = a.stats.weaponRadius;
+  const wb = b.stats.weaponRadius;
+  return {
+    body,
+    weaponA: sweptPathToi(pa.weapon, pb.body, wa + WARRIOR_RADIUS),
+    weaponB: sweptPathToi(pa.body, pb.weapon, wb + WARRIOR_RADIUS),
+    weapons: sweptPathToi(pa.weapon, pb.weapon, wa + wb),
+  };
+}
+
+/** Contact times for bodies found overlapping at the end of the step, as if everything arrived then. */
+function staticContact(a: Warrior, b: Warrior): ContactTimes {
+  const touching = (x: number, y: number, bx: number, by: number, r: number): number | null =>
+    (distSq(x, y, bx, by) < r * r ? 1 : null);
+  return {
+    body:    1,
+    weaponA: touching(a.weaponX, a.weaponY, b.px, b.py, a.stats.weaponRadius + WARRIOR_RADIUS),
+    weaponB: touching(b.weaponX, b.weaponY, a.px, a.py, b.stats.weaponRadius + WARRIOR_RADIUS),
+    weapons: touching(a.weaponX, a.weaponY, b.weaponX, b.weaponY, a.stats.weaponRadius + b.stats.weaponRadius),
+  };
+}
+
+/**
+ * Below this many warriors the all-pairs loop is cheaper than building a
+ * grid, and it keeps the classic modes' resolution order untouched.
+ */
+export const BROAD_PHASE_MIN_WARRIORS = 8;
+
+/**
+ * Extra reach for broad-phase candidates: resolving one pair pushes its
+ * warriors by up to half their overlap, which can open a new contact later
+ * in the same pass. Candidates within this slack are re-tested in order.
+ */
+const BROAD_PHASE_SLACK = WARRIOR_RADIUS;
+
+/**
+ * Uniform-grid broad phase: index pairs (i < j) whose centres are within
+ * `reach` (also the cell size), sorted as the all-pairs loop would visit them.
+ */
+export function broadPhasePairs(warriors: Warrior[], reach: number): [number, number][] {
+  const cells = new Map<number, number[]>();
+  const cellOf = (w: Warrior): [number, number] => [Math.floor(w.px / reach), Math.floor(w.py / reach)];
+  // Offset so negative coordinates still pack into a unique integer key
+  const key = (cx: number, cy: number): number => (cx + 32768) * 65536 + (cy + 32768);
+
+  warriors.forEach((w, i) => {
+    const [cx, cy] = cellOf(w);
+    const k = key(cx, cy);
+    const bucket = cells.get(k);
+    if (bucket) bucket.push(i); else cells.set(k, [i]);
+  });
 
-  for (let i = 0; i < alive.length; i++) {
-    for (let j = i + 1; j < alive.length; j++) {
-      const a = alive[i];
-      const b = alive[j];
-
-      const dx = b.px - a.px;
-      const dy = b.py - a.py;
-      const distSq = dx * dx + dy * dy;
-      const minDist = TWO_R;
-
-      if (distSq < minDist * minDist) {
-        pairs.push({ a, b });
-
-        // Separate the two circles
-        const dist = Math.sqrt(distSq) || 0.001;
-        const overlap = minDist - dist;
-        const nx = dx / dist;
-        const ny = dy / dist;
-
-        // Push them apart equally
-        a.px -= nx * overlap * 0.5;
-        a.py -= ny * overlap * 0.5;
-        b.px += nx * overlap * 0.5;
-        b.py += ny * overlap * 0.5;
-
-        // Elastic-like bounce: exchange velocity components along collision normal
-        const dvx = a.vx - b.vx;
-        const dvy = a.vy - b.vy;
-        const dot = dvx * nx + dvy * ny;
-
-        a.vx -= dot * nx;
-        a.vy -= dot * ny;
-        b.vx += dot * nx;
-        b.vy += dot * ny;
-
-        // Restore constant speed for both
-        a.normalise();
-        b.normalise();
-
-        a.updateWeaponPos();
-        b.updateWeaponPos();
+  const reachSq = reach * reach;
+  const out: [number, number][] = [];
+  warriors.forEach((a, i) => {
+    const [cx, cy] = cellOf(a);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const j of cells.get(key(cx + dx, cy + dy)) ?? []) {
+          if (j > i && distSq(a.px, a.py, warriors[j].px, warriors[j].py) < reachSq) out.push([i, j]);
+        }
       }
     }
+  });
+  return out.sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+}
+
+/** Exchange the velocity components of a pair along the unit normal (nx, ny) if they are closing. */
+function bounce(a: Warrior, b: Warrior, nx: number, ny: number): void {
+  const dot = (a.vx - b.vx) * nx + (a.vy - b.vy) * ny;
+  if (dot <= 0) return;
+  a.vx -= dot * nx;
+  a.vy -= dot * ny;
+  b.vx += dot * nx;
+  b.vy += dot * ny;
+}
+
+/** Separate and bounce one pair if their bodies overlap. Returns true on contact. */
+function resolvePair(a: Warrior, b: Warrior): boolean {
+  const dx = b.px - a.px;
+  const dy = b.py - a.py;
+  const distSq = dx * dx + dy * dy;
+  const minDist = TWO_R;
+
+  if (distSq >= minDist * minDist) return false;
+
+  // Separate the two circles
+  const dist = Math.sqrt(distSq) || 0.001;
+  const overlap = minDist - dist;
+  const nx = dx / dist;
+  const ny = dy / dist;
+
+  // Push them apart equally
+  a.px -= nx * overlap * 0.5;
+  a.py -= ny * overlap * 0.5;
+  b.px += nx * overlap * 0.5;
+  b.py += ny * overlap * 0.5;
+
+  // Elastic-like bounce: exchange velocity components along collision normal
+  const dvx = a.vx - b.vx;
+  const dvy = a.vy - b.vy;
+  const dot = dvx * nx + dvy * ny;
+
+  a.vx -= dot * nx;
+  a.vy -= dot * ny;
+  b.vx += dot * nx;
+  b.vy += dot * ny;
+
+  // Restore constant speed for both
+  a.normalise();
+  b.normalise();
+
+  a.updateWeaponPos();
+  b.updateWeaponPos();
+  return true;
+}
+
+/**
+ * Bodies that touched mid-step but ended it apart (a glancing or
+ * tunnelling contact): rewind both to the moment of impact, bounce them
+ * there and run out the rest of the step on the new velocities. The rewind
+ * backs off along each warrior's current velocity, so a bounce off a wall
+ * or an earlier contact this step is kept.
+ */
+function resolveGlancing(a: Warrior, b: Warrior, t: number, dt: number): void {
+  const back = (1 - t) * dt;
+  const ax = a.px - a.vx * back;
+  const ay = a.py - a.vy * back;
+  const bx = b.px - b.vx * back;
+  const by = b.py - b.vy * back;
+  const d = Math.hypot(bx - ax, by - ay) || 0.001;
+
+  bounce(a, b, (bx - ax) / d, (by - ay) / d);
+  a.normalise();
+  b.normalise();
+
+  a.px = ax + a.vx * back;
+  a.py = ay + a.vy * back;
+  b.px = bx + b.vx * back;
+  b.py = by + b.vy * back;
+  a.updateWeaponPos();
+  b.updateWeaponPos();
+}
+
+/**
+ * Detect and resolve body contacts between warriors over the step just
+ * integrated. Every candidate pair is swept from its start-of-step pose,
+ * so a fast glancing touch counts even if it is over by the end of the
+ * step. Contacts are resolved in time-of-impact order; a pair pushed into
+ * overlap by an earlier resolution is caught by a final overlap pass.
+ * Large fields go through the grid broad phase; small ones test all pairs.
+ * Returns the contacts in resolution order for Combat to process.
+ */
+export function resolveWarriorCollisions(warriors: Warrior[], dt: number): CollisionPair[] {
+  const alive = warriors.filter(w => w.alive && !w.dying);
+
+  let candidates: [number, number][];
+  if (alive.length >= BROAD_PHASE_MIN_WARRIORS) {
+    // A pair that touched mid-step may have drifted apart by both warriors' travel since
+    const travel = Math.max(0, ...alive.map(w => Math.hypot(w.px - w.prevPx, w.py - w.prevPy)));
+    candidates = broadPhasePairs(alive, TWO_R + 2 * travel + BROAD_PHASE_SLACK);
+  } else {
+    candidates = [];
+    for (let i = 0; i < alive.length; i++) {
+      for (let j = i + 1; j < alive.length; j++) candidates.push([i, j]);
+    }
+  }
+
+  const swept: CollisionPair[] = [];
+  const rest: [number, number][] = [];
+  for (const [i, j] of candidates) {
+    const contact = sweptContact(alive[i], alive[j]);
+    if (contact === null) rest.push([i, j]);
+    else swept.push({ a: alive[i], b: alive[j], toi: contact.body, contact });
+  }
+  // Stable sort: simultaneous contacts keep the all-pairs order
+  swept.sort((p, q) => p.toi - q.toi);
+
+  const pairs: CollisionPair[] = [];
+  for (const pair of swept) {
+    if (resolvePair(pair.a, pair.b)) {
+      pairs.push(pair);
+    } else if (pair.toi > 0) {
+      resolveGlancing(pair.a, pair.b, pair.toi, dt);
+      pairs.push(pair);
+    }
+    // Otherwise they were only just touching at the start and are moving apart
+  }
+
+  for (const [i, j] of rest) {
+    const a = alive[i];
+    const b = alive[j];
+    if (resolvePair(a, b)) pairs.push({ a, b, toi: 1, contact: staticContact(a, b) });
   }
   return pairs;
 }
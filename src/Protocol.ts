@@ -0,0 +1,139 @@
+import { ArenaLayoutName, ARENA_LAYOUT_NAMES } from './Arena';
+import { BoosterType, PickupRule, PICKUP_RULES, isBoosterType } from './Boosters';
+import { STAKE_LADDER } from './Economy';
+import type { RoundRecording } from './Replay';
+import {
+  TeamLayout, TEAM_LAYOUTS, WARRIOR_COLORS_LIST, isValidMode, teamLayoutSize,
+} from './RoundEngine';
+import type { WarriorColor } from './Warrior';
+
+/**
+ * Server-authoritative rounds over JSON/HTTP. The server holds the balance,
+ * draws the seed and the outcome decision and settles each round on the
+ * headless engine; the client only animates the recording it gets back.
+ *
+ *   POST /sessions                                    → SessionState
+ *   GET  /sessions/:session                           → SessionState
+ *   POST /sessions/:session/rounds          RoundRequest    → RoundState
+ *   POST /sessions/:session/rounds/:round/boosters
+ *                                           BoosterPurchase → RoundState
+ *   POST /sessions/:session/rounds/:round/close       → SessionState
+ *
+ * Errors come back as ProtocolErrorBody with a 4xx status.
+ */
+export const PROTOCOL_VERSION = 2;
+
+export interface RoundRequest {
+  stake: number;
+  mode: number;
+  teams: TeamLayout;
+  warrior: WarriorColor;
+  booster: BoosterType | 'none';
+  pickups: PickupRule;
+  arena: ArenaLayoutName;
+}
+
+/** A booster bought at `tick` of the round being animated. */
+export interface BoosterPurchase {
+  tick: number;
+  booster: BoosterType;
+}
+
+export interface SessionState {
+  version: number;
+  sessionId: string;
+  balance: number;
+  /** The round still taking purchases, if any. */
+  openRound: RoundState | null;
+}
+
+/**
+ * A round as the server has settled it so far. Every purchase re-settles
+ * it, so the recording's inputs and result, and the balance, can change
+ * until the round is closed.
+ */
+export interface RoundState {
+  roundId: string;
+  recording: RoundRecording;
+  /** Balance once the round settles as recorded. */
+  balance: number;
+  /** Staked in the round: the bet plus every booster bought. */
+  wagered: number;
+  /** What the round does to the balance, stakes included; negative is a loss. */
+  net: number;
+}
+
+export type ProtocolErrorCode =
+  | 'bad_request'
+  /** The request body is over the server's size limit. */
+  | 'too_large'
+  | 'not_found'
+  | 'insufficient_funds'
+  /** A round is already open, or the round is no longer open. */
+  | 'round_state'
+  /** The purchase can't go in at that tick. */
+  | 'purchase_rejected';
+
+export interface ProtocolErrorBody {
+  error: ProtocolErrorCode;
+  message: string;
+}
+
+export class ProtocolError extends Error {
+  constructor(readonly code: ProtocolErrorCode, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+
+  /** HTTP status the server answers with. */
+  get status(): number {
+    switch (this.code) {
+      case 'bad_request': return 400;
+      case 'not_found':   return 404;
+      case 'too_large':   return 413;
+      default:            return 409;
+    }
+  }
+
+  toBody(): ProtocolErrorBody {
+    return { error: this.code, message: this.message };
+  }
+}
+
+function fail(message: string): never {
+  throw new ProtocolError('bad_request', message);
+}
+
+function field<T>(body: Record<string, unknown>, key: string, ok: (v: unknown) => v is T): T {
+  const v = body[key];
+  if (!ok(v)) fail(`Invalid ${key}: ${JSON.stringify(v)}`);
+  return v;
+}
+
+const oneOf = <T>(values: readonly T[]) => (v: unknown): v is T => values.includes(v as T);
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** Validate a round request from an untrusted client. */
+export function parseRoundRequest(body: unknown): RoundRequest {
+  if (!isObject(body)) fail('Round request must be a JSON object');
+  const req: RoundRequest = {
+    stake:   field(body, 'stake', oneOf(STAKE_LADDER)),
+    mode:    field(body, 'mode', (v): v is number => typeof v === 'number' && isValidMode(v)),
+    teams:   field(body, 'teams', oneOf(TEAM_LAYOUTS)),
+    warrior: field(body, 'warrior', oneOf(WARRIOR_COLORS_LIST)),
+    booster: field(body, 'booster', (v): v is BoosterType | 'none' => v === 'none' || (typeof v === 'string' && isBoosterType(v))),
+    pickups: field(body, 'pickups', oneOf(PICKUP_RULES)),
+    arena:   field(body, 'arena', oneOf(ARENA_LAYOUT_NAMES)),
+  };
+  const size = teamLayoutSize(req.teams);
+  if (size !== null && size !== req.mode) fail(`Team layout ${req.teams} needs ${size} warriors, not ${req.mode}`);
+  return req;
+}
+
+export function parseBoosterPurchase(body: unknown): BoosterPurchase {
+  if (!isObject(body)) fail('Booster purchase must be a JSON object');
+  return {
+    tick:    field(body, 'tick', (v): v is number => Number.isInteger(v) && (v as number) >= 0),
+    booster: field(body, 'booster', (v): v is BoosterType => typeof v === 'string' && isBoosterType(v)),
+  };
+}
@@ -0,0 +1,185 @@
+import { Arena, ArenaLayoutName } from './Arena';
+import { Economy } from './Economy';
+import { CombatResolver } from './Combat';
+import { Rng } from './Rng';
+import { BoosterType, PickupRule, isBoosterType } from './Boosters';
+import type { WarriorColor } from './Warrior';
+import type { OutcomeDecision } from './OutcomeController';
+import {
+  RoundEngine, RoundInput, RoundOutcome, TeamLayout, PlayerCarry, FIXED_DT,
+} from './RoundEngine';
+
+export const RECORDING_VERSION = 5;
+
+/**
+ * Everything needed to rebuild a round tick-for-tick: the seed, the
+ * outcome decision taken for it, the setup and every input.
+ */
+export interface RoundRecording {
+  version: number;
+  seed: number;
+  mode: number;
+  teams: TeamLayout;
+  arena: ArenaLayoutName;
+  playerColor: WarriorColor;
+  booster: BoosterType | 'none';
+  pickups: PickupRule;
+  /** Balance before the bet was taken — mid-round buys depend on it. */
+  startBalance: number;
+  /** Stake the round was played at; scales every payout. */
+  stake: number;
+  /** A tournament stage: no bet, no per-hit pay, and the player may start carrying HP or effects. */
+  tournament: boolean;
+  carry: PlayerCarry | null;
+  /** Strategy, params and strategy inputs chosen for this round. */
+  decision: OutcomeDecision;
+  inputs: RoundInput[];
+  /** Filled in when the round ends; a replay is checked against it. */
+  result: { outcome: RoundOutcome; ticks: number; finalProfit: number } | null;
+}
+
+export type RecordingSetup = Omit<RoundRecording, 'version' | 'inputs' | 'result'>;
+
+/** Collects the inputs of a live round. */
+export class RoundRecorder {
+  private recording: RoundRecording;
+
+  constructor(setup: RecordingSetup) {
+    this.recording = {
+      version: RECORDING_VERSION,
+      ...setup,
+      decision: {
+        ...setup.decision,
+        params:  { ...setup.decision.params },
+        details: { ...setup.decision.details },
+      },
+      inputs: [],
+      result: null,
+    };
+  }
+
+  record(input: RoundInput): void {
+    this.recording.inputs.push({ ...input });
+  }
+
+  /** Stamp the final result and return the completed recording. */
+  finish(round: RoundEngine): RoundRecording {
+    this.recording.result = {
+      outcome: round.outcome,
+      ticks: round.tick,
+      finalProfit: round.economy.finalProfit,
+    };
+    return this.recording;
+  }
+}
+
+/**
+ * Rebuild a recorded round with its own Economy, so playing it back never
+ * touches the live balance. `arena` only places the field; its layout is
+ * the recorded one.
+ */
+export function createReplayRound(rec: RoundRecording, arena: Arena): RoundEngine {
+  // The outcome stream is never drawn: the recorded decision is replayed as-is.
+  const rng = new Rng(rec.seed).streams();
+  const economy = new Economy(rec.startBalance);
+  economy.setStake(rec.stake);
+  if (rec.tournament) economy.enterTournament(0);
+
+  return new RoundEngine({
+    mode:        rec.mode,
+    teams:       rec.teams,
+    playerColor: rec.playerColor,
+    booster:     rec.booster,
+    pickups:     rec.pickups,
+    arena:       new Arena(arena.x, arena.y, arena.size, rec.arena),
+    rng,
+    combat:      new CombatResolver(),
+    params:      { ...rec.decision.params },
+    economy,
+    carry:       rec.carry,
+  });
+}
+
+/** Steps a replayed round, feeding each recorded input at its tick. */
+export class RoundReplayer {
+  readonly round: RoundEngine;
+  /** Inputs the round turned down when their tick came. */
+  readonly rejected: RoundInput[] = [];
+  private inputs: RoundInput[];
+  private cursor = 0;
+
+  constructor(private rec: RoundRecording, arena: Arena) {
+    this.round  = createReplayRound(rec, arena);
+    this.inputs = sortInputs(rec.inputs);
+  }
+
+  get recording(): RoundRecording {
+    return this.rec;
+  }
+
+  step(dt = FIXED_DT): void {
+    while (this.cursor < this.inputs.length && this.inputs[this.cursor].tick <= this.round.tick) {
+      const input = this.inputs[this.cursor++];
+      if (!this.round.applyInput(input)) this.rejected.push(input);
+    }
+    this.round.step(dt);
+  }
+
+  /**
+   * Carry on from here with `next`, the same round re-settled with inputs
+   * added after the current tick. Throws if it rewrites anything already
+   * played.
+   */
+  adopt(next: RoundRecording): void {
+    const inputs = sortInputs(next.inputs);
+    const played = this.inputs.slice(0, this.cursor);
+    const same = next.seed === this.rec.seed
+      && played.every((input, i) => JSON.stringify(input) === JSON.stringify(inputs[i]))
+      && inputs.slice(this.cursor).every(input => input.tick >= this.round.tick);
+    if (!same) throw new Error(`Recording for seed ${next.seed} does not continue the round being played`);
+    this.rec    = next;
+    this.inputs = inputs;
+  }
+
+  /** True once the replay has ended exactly as the recording says it did. */
+  matchesRecording(): boolean {
+    const r = this.recording.result;
+    if (!r || this.round.running) return false;
+    return r.outcome === this.round.outcome
+      && r.ticks === this.round.tick
+      && r.finalProfit === this.round.economy.finalProfit;
+  }
+}
+
+function sortInputs(inputs: RoundInput[]): RoundInput[] {
+  return inputs.slice().sort((a, b) => a.tick - b.tick);
+}
+
+/** Parse a recording exported as JSON. Throws on anything we can't replay. */
+export function parseRecording(json: string): RoundRecording {
+  return checkRecording(JSON.parse(json));
+}
+
+/**
+ * Check an already-decoded recording, e.g. one inside a server response.
+ * Only the current version is accepted: the engine has changed under older
+ * ones, so they would not play back as recorded.
+ */
+export function checkRecording(value: unknown): RoundRecording {
+  const rec = value as RoundRecording;
+  if (!rec || typeof rec !== 'object') throw new Error('Recording must be a JSON object');
+  if (rec.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${rec.version} (expected ${RECORDING_VERSION})`);
+  }
+  if (typeof rec.seed !== 'number' || !rec.decision?.params || !Array.isArray(rec.inputs)) {
+    throw new Error('Recording is missing seed, decision or inputs');
+  }
+  const unknown = [rec.booster, ...rec.inputs.map(i => i.booster)].find(b => b !== 'none' && !isBoosterType(b));
+  if (unknown !== undefined) throw new Error(`Recording uses unknown booster "${unknown}"`);
+  // JSON has no Infinity: unlimited charges or time come back as null
+  for (const e of rec.carry?.effects ?? []) {
+    e.charges   ??= Infinity;
+    e.expiresMs ??= Infinity;
+  }
+  return rec;
+}
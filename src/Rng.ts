@@ -1,9 +1,55 @@
+/** Named sub-streams a round draws from, so one consumer never shifts another's rolls. */
+export type RngStreamName = 'outcome' | 'spawn' | 'combat' | 'pickups' | 'cosmetic';
+
+export const RNG_STREAM_NAMES: readonly RngStreamName[] = ['outcome', 'spawn', 'combat', 'pickups', 'cosmetic'];
+
+export type RngStreams = Record<RngStreamName, Rng>;
+
+/** Everything needed to resume a generator exactly where it was. */
+export interface RngState {
+  seed: number;
+  state: number;
+}
+
+/** murmur3 finaliser — spreads every input bit over the whole word. */
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/** FNV-1a over the UTF-16 code units, then fmix32 so short strings still differ in the high bits. */
+export function hashString(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return fmix32(h);
+}
+
+/**
+ * Turn user seed text into a 32-bit seed. A plain decimal integer that fits
+ * is used as-is, so the seed shown after a round can be typed back in; any
+ * other text is hashed.
+ */
+export function parseSeed(text: string): number {
+  const s = text.trim();
+  if (/^\d+$/.test(s) && Number(s) <= 0xffffffff) return Number(s);
+  return hashString(s);
+}
+
 /** Mulberry32 seeded PRNG — fast, decent quality for game use. */
 export class Rng {
+  private seed: number;
   private state: number;
 
   constructor(seed?: number) {
-    this.state = seed !== undefined ? seed >>> 0 : (Math.random() * 0xffffffff) >>> 0;
+    this.seed  = seed !== undefined ? seed >>> 0 : (Math.random() * 0xffffffff) >>> 0;
+    this.state = this.seed;
   }
 
   /** Returns float in [0, 1). */
@@ -29,7 +75,42 @@ export class Rng {
     return this.next() * Math.PI * 2;
   }
 
+  /**
+   * Independent generator named `name`. Derived from the seed rather than
+   * the current state, so forks don't depend on how much has been drawn.
+   */
+  fork(name: string): Rng {
+    return new Rng(fmix32(this.seed ^ Math.imul(hashString(name), 0x9e3779b9)));
+  }
+
+  /** One fork per stream name. */
+  streams(): RngStreams {
+    const out = {} as RngStreams;
+    for (const name of RNG_STREAM_NAMES) out[name] = this.fork(name);
+    return out;
+  }
+
+  saveState(): RngState {
+    return { seed: this.seed, state: this.state };
+  }
+
+  restoreState(s: RngState): void {
+    this.seed  = s.seed >>> 0;
+    this.state = s.state >>> 0;
+  }
+
+  /** The seed this generator was created (or restored) with. */
   getSeed(): number {
-    return this.state;
+    return this.seed;
   }
 }
+
+export function saveStreams(streams: RngStreams): Record<RngStreamName, RngState> {
+  const out = {} as Record<RngStreamName, RngState>;
+  for (const name of RNG_STREAM_NAMES) out[name] = streams[name].saveState();
+  return out;
+}
+
+export function restoreStreams(streams: RngStreams, states: Record<RngStreamName, RngState>): void {
+  for (const name of RNG_STREAM_NAMES) streams[name].restoreState(states[name]);
+}
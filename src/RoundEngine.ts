@@ -0,0 +1,421 @@
+import { Arena } from './Arena';
+import {
+  Warrior, WarriorColor, WARRIOR_RADIUS, WARRIOR_COLORS, WARRIOR_LABELS, PLAYER_TEAM, ARCHETYPES,
+  generatedAppearance, generatedArchetype,
+} from './Warrior';
+import {
+  integrateMotion, resolveWalls, resolveWarriorCollisions,
+} from './Physics';
+import { CombatResolver } from './Combat';
+import { Economy } from './Economy';
+import {
+  ActiveEffect, BoosterPickup, BoosterType, PickupRule, BOOSTERS, BOOSTER_TYPES, spawnBooster, checkPickup,
+  applyBooster, updateEffects, restoreEffects,
+} from './Boosters';
+import { placeSpawns } from './Spawn';
+import { SuddenDeathConfig, DEFAULT_SUDDEN_DEATH, suddenDeathAt } from './SuddenDeath';
+import { EventBus } from './EventBus';
+import type { RoundEventMap, RoundEvents } from './RoundEvents';
+import type { RngStreams } from './Rng';
+import type { OutcomeParams } from './OutcomeController';
+
+export const WARRIOR_COLORS_LIST: WarriorColor[] = ['red', 'blue', 'green', 'yellow'];
+// ≈3× original baseline (252 × 1.5 = 378)
+export const WARRIOR_SPEED = 378; // px/s
+export const FIXED_DT = 1 / 60;
+export const ARENA_SIZE = 500;
+/**
+ * Where the arena's top-left corner sits on the game's canvas, on both axes.
+ * The engine's float rounding depends on it, so the server and the
+ * simulator build their arenas there too, to play the rounds the game does.
+ */
+export const ARENA_ORIGIN = 20;
+
+/** Named colours in warrior-id order for a player of `playerColor`: the player's first, then the rest. */
+export function fieldColors(playerColor: WarriorColor): WarriorColor[] {
+  return [playerColor, ...WARRIOR_COLORS_LIST.filter(c => c !== playerColor)];
+}
+
+/** Classic modes field 2–4 named warriors; battle royale fields 16–64 generated ones. */
+export const CLASSIC_MIN_WARRIORS = 2;
+export const CLASSIC_MAX_WARRIORS = WARRIOR_COLORS_LIST.length;
+export const BATTLE_ROYALE_MIN_WARRIORS = 16;
+export const BATTLE_ROYALE_MAX_WARRIORS = 64;
+
+export function isBattleRoyale(mode: number): boolean {
+  return mode >= BATTLE_ROYALE_MIN_WARRIORS;
+}
+
+export function isValidMode(mode: number): boolean {
+  return Number.isInteger(mode) && (
+    (mode >= CLASSIC_MIN_WARRIORS && mode <= CLASSIC_MAX_WARRIORS) ||
+    (mode >= BATTLE_ROYALE_MIN_WARRIORS && mode <= BATTLE_ROYALE_MAX_WARRIORS)
+  );
+}
+
+/**
+ * How warriors are split into teams. 'ffa' puts everyone on their own team;
+ * '2v2' pits the player and an ally against a pair; 'ally2' pits the player
+ * and an ally against two enemies who also fight each other.
+ */
+export type TeamLayout = 'ffa' | '2v2' | 'ally2';
+
+export const TEAM_LAYOUTS: readonly TeamLayout[] = ['ffa', '2v2', 'ally2'];
+
+/** Team size per team id, player's team first. */
+export const TEAM_SIZES: Record<Exclude<TeamLayout, 'ffa'>, number[]> = {
+  '2v2':   [2, 2],
+  'ally2': [2, 1, 1],
+};
+
+/** Warriors a layout needs, or null if it works with any mode. */
+export function teamLayoutSize(teams: TeamLayout): number | null {
+  return teams === 'ffa' ? null : TEAM_SIZES[teams].reduce((a, b) => a + b, 0);
+}
+
+/** Team id of the i-th warrior (the player is warrior 0). */
+export function teamOf(i: number, teams: TeamLayout): number {
+  if (teams === 'ffa') return i;
+  let end = 0;
+  const sizes = TEAM_SIZES[teams];
+  for (let t = 0; t < sizes.length; t++) {
+    end += sizes[t];
+    if (i < end) return t;
+  }
+  throw new Error(`Warrior ${i} does not fit team layout ${teams}`);
+}
+
+/** Short label for a mode, e.g. "1vs2", "BR32" or "2v2". */
+export function modeLabel(mode: number, teams: TeamLayout = 'ffa'): string {
+  if (teams === '2v2') return '2v2';
+  if (teams === 'ally2') return '1+1v2';
+  return isBattleRoyale(mode) ? `BR${mode}` : `1vs${mode - 1}`;
+}
+
+export type RoundOutcome = 'running' | 'win' | 'lose';
+
+/** A player action applied between fixed steps, stamped with the tick it took effect on. */
+export interface RoundInput {
+  tick: number;
+  type: 'buy_booster';
+  booster: BoosterType;
+}
+
+/** What the player brings into a round from the one before (tournament carry-over). */
+export interface PlayerCarry {
+  /** HP to start on instead of full; capped at the archetype's max. */
+  hp?: number;
+  /** Booster effects still running, with expiry times relative to the round's start. */
+  effects?: ActiveEffect[];
+}
+
+export interface RoundConfig {
+  /** Number of warriors in the round (player included). */
+  mode: number;
+  playerColor: WarriorColor;
+  /** Booster bought before START, or 'none'. */
+  booster: BoosterType | 'none';
+  /** Team split; its size must match `mode`. Defaults to free-for-all. */
+  teams?: TeamLayout;
+  /** Who may collect booster pickups. Defaults to the player only. */
+  pickups?: PickupRule;
+  arena: Arena;
+  /** The round's streams; the engine draws from spawn, pickups and combat. */
+  rng: RngStreams;
+  /** Fresh per round; owns the pair cooldowns and damage tables. */
+  combat: CombatResolver;
+  params: OutcomeParams;
+  /** Charged on construction, then follows the round through its events. */
+  economy: Economy;
+  /** Shrinking walls, damage ramp and time limit; null for an open-ended round. Defaults to the live game's. */
+  suddenDeath?: SuddenDeathConfig | null;
+  /** Starting HP and effects for the player; defaults to a fresh warrior. */
+  carry?: PlayerCarry | null;
+}
+
+/**
+ * Headless round simulation shared by the live Game and the Simulation.
+ *
+ * Owns warriors, the booster pickup, its CombatResolver (cooldowns run on
+ * the round's simulated clock), the sudden-death phase and the win/lose
+ * decision. Rendering and input live on top of it; nothing in here touches
+ * the DOM or PixiJS.
+ *
+ * Everything that happens is published on `events`. Subscribe after
+ * construction and before `start()` (or the first `step()`) to see the
+ * whole round; the Economy is always subscribed first.
+ */
+export class RoundEngine {
+  /** The arena as configured; `arena` is the walls in play right now. */
+  readonly baseArena: Arena;
+  arena: Arena;
+  readonly params: OutcomeParams;
+  readonly economy: Economy;
+  readonly combat: CombatResolver;
+  readonly teams: TeamLayout;
+  readonly pickups: PickupRule;
+  readonly suddenDeath: SuddenDeathConfig | null;
+  /** Bet taken at the start: the economy's stake, or 0 for a tournament stage. */
+  readonly bet: number;
+  /** Tick at which a still-running round is decided on HP, or null without sudden death. */
+  readonly deadlineTick: number | null;
+  readonly warriors: Warrior[] = [];
+  readonly events: RoundEvents = new EventBus<RoundEventMap>();
+
+  boosterPickup: BoosterPickup | null = null;
+  boostersBought = Object.fromEntries(BOOSTER_TYPES.map(t => [t, 0])) as Record<BoosterType, number>;
+
+  outcome: RoundOutcome = 'running';
+  /** Fixed steps advanced so far — the round's only clock. */
+  tick = 0;
+  suddenDeathActive = false;
+
+  private rng: RngStreams;
+  private started = false;
+
+  constructor(cfg: RoundConfig) {
+    if (!isValidMode(cfg.mode)) throw new Error(`Unsupported mode: ${cfg.mode} warriors`);
+    this.teams = cfg.teams ?? 'ffa';
+    this.pickups = cfg.pickups ?? 'player';
+    const teamSize = teamLayoutSize(this.teams);
+    if (teamSize !== null && teamSize !== cfg.mode) {
+      throw new Error(`Team layout ${this.teams} needs ${teamSize} warriors, got ${cfg.mode}`);
+    }
+    this.baseArena = cfg.arena;
+    this.arena     = cfg.arena;
+    this.rng       = cfg.rng;
+    this.params    = cfg.params;
+    this.economy   = cfg.economy;
+    this.combat    = cfg.combat;
+
+    this.suddenDeath  = cfg.suddenDeath === undefined ? DEFAULT_SUDDEN_DEATH : cfg.suddenDeath;
+    this.deadlineTick = this.suddenDeath ? Math.round(this.suddenDeath.maxDurationMs / 1000 / FIXED_DT) : null;
+
+    this.bet = this.economy.roundBet;
+    this.economy.startRound(cfg.mode, this.teams, cfg.booster);
+    this.economy.subscribe(this.events);
+
+    this.spawnWarriors(cfg.mode, cfg.playerColor);
+    if (cfg.carry) this.applyCarry(cfg.carry);
+
+    if (cfg.booster !== 'none') {
+      this.boostersBought[cfg.booster]++;
+      this.boosterPickup = spawnBooster(cfg.booster, this.arena, this.rng.pickups);
+    }
+  }
+
+  get player(): Warrior {
+    return this.warriors[0];
+  }
+
+  get running(): boolean {
+    return this.outcome === 'running';
+  }
+
+  /** Total staked this round: the bet plus every booster bought. */
+  get wagered(): number {
+    return BOOSTER_TYPES.reduce((sum, t) => sum + this.boostersBought[t] * BOOSTERS[t].cost, this.bet);
+  }
+
+  /** Announce the round. Called by the first step() if not called explicitly. */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.events.emit('round_start', { tick: this.tick, warriors: this.warriors, params: this.params });
+    if (this.boosterPickup) {
+      this.events.emit('booster_spawn', { tick: this.tick, booster: this.boosterPickup, midRound: false });
+    }
+  }
+
+  private spawnWarriors(count: number, playerColor: WarriorColor): void {
+    const colors = fieldColors(playerColor);
+
+    // Crowded fields may pack down to touching bodies, never overlapping ones
+    const positions = placeSpawns(
+      count, this.arena, this.rng.spawn,
+      WARRIOR_RADIUS + 20, WARRIOR_RADIUS * 2.5, WARRIOR_RADIUS * 2,
+    );
+
+    for (let i = 0; i < count; i++) {
+      const angle = this.rng.spawn.angle();
+      const isPlayer = i === 0;
+      const color = i < colors.length ? colors[i] : null;
+      const stats = ARCHETYPES[color ?? generatedArchetype(i)];
+      const speed = isPlayer
+        ? WARRIOR_SPEED * stats.speedMul * this.params.playerSpeedMul
+        : WARRIOR_SPEED * stats.speedMul;
+
+      const look = color
+        ? { tint: WARRIOR_COLORS[color], label: WARRIOR_LABELS[color] }
+        : generatedAppearance(i);
+
+      const w = new Warrior({
+        id: i, color, ...look, team: teamOf(i, this.teams), stats, isPlayer,
+        px: positions[i].x, py: positions[i].y,
+        vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed,
+        speed,
+      });
+      w.updateWeaponPos();
+      this.warriors.push(w);
+    }
+  }
+
+  private applyCarry(carry: PlayerCarry): void {
+    const p = this.player;
+    if (carry.hp !== undefined) p.hp = Math.max(1, Math.min(p.maxHp, carry.hp));
+    if (carry.effects) restoreEffects(p, carry.effects);
+  }
+
+  /**
+   * Buy and spawn a booster while the round is running.
+   * Returns false if the round is over, the player can't afford it,
+   * or a pickup is already waiting on the field.
+   */
+  buyBooster(type: BoosterType): boolean {
+    if (!this.running) return false;
+    if (this.boosterPickup?.active) return false;
+    if (!this.economy.chargeBooster(type)) return false;
+
+    this.boosterPickup = spawnBooster(type, this.arena, this.rng.pickups);
+    this.boostersBought[type]++;
+    this.events.emit('booster_spawn', { tick: this.tick, booster: this.boosterPickup, midRound: true });
+    return true;
+  }
+
+  /**
+   * Apply a player input at the current tick. Inputs must be fed through
+   * here (not the direct methods) for the round to be replayable.
+   */
+  applyInput(input: RoundInput): boolean {
+    this.start();
+    switch (input.type) {
+      case 'buy_booster':
+        return this.buyBooster(input.booster);
+    }
+  }
+
+  /** Simulated round time in ms, derived from the tick count — drives collision cooldowns. */
+  get timeMs(): number {
+    return this.tick * FIXED_DT * 1000;
+  }
+
+  /** Advance the round by one fixed step. No-op once the round has ended. */
+  step(dt = FIXED_DT): void {
+    if (!this.running) return;
+    this.start();
+
+    this.tick++;
+    const tick = this.tick;
+    const events = this.events;
+    if (this.suddenDeath) this.advanceSuddenDeath(this.suddenDeath);
+
+    const alive = this.warriors.filter(w => w.alive && !w.dying);
+
+    // Advance rotation BEFORE motion so integrateMotion→updateWeaponPos uses the new angle.
+    // w.rotationRad is the single source of truth for both visuals and hitbox position.
+    for (const w of alive) {
+      w.rotationRad += (w.speed / WARRIOR_RADIUS) * dt;
+    }
+
+    integrateMotion(alive, dt);
+    resolveWalls(alive, this.arena);
+    const pairs = resolveWarriorCollisions(alive, dt);
+    // Contacts can push a warrior back through a wall
+    resolveWalls(alive, this.arena);
+
+    const lastHitBy = new Map<Warrior, Warrior>();
+    for (const pair of pairs) {
+      const rawEvents = this.combat.processCollision(pair, this.timeMs, this.params, () => this.rng.combat.next());
+      const applied   = this.combat.applyDamageEvents(rawEvents, (ev) => events.emit('shield_block', { ...ev, tick }));
+      for (const ev of applied) {
+        lastHitBy.set(ev.victim, ev.attacker);
+        events.emit('damage', { ...ev, tick });
+      }
+    }
+
+    for (const w of alive) {
+      if (w.dying) events.emit('warrior_dying', { tick, warrior: w, killer: lastHitBy.get(w) ?? null });
+    }
+
+    // Contested pickups go to the first warrior, in id order, touching them this step
+    const contenders = this.pickups === 'any'
+      ? alive.filter(w => !w.dying)
+      : [this.player].filter(w => w.alive);
+    for (const w of contenders) {
+      if (!this.boosterPickup?.active) break;
+      checkPickup(w, this.boosterPickup, (b) => {
+        events.emit('booster_pickup', { tick, warrior: w, booster: b, message: applyBooster(w, b, this.timeMs) });
+      });
+    }
+
+    for (const w of alive) {
+      for (const type of updateEffects(w, this.timeMs, { dt, pickup: this.boosterPickup })) {
+        events.emit('booster_expire', { tick, warrior: w, type });
+      }
+    }
+
+    for (const w of this.warriors) {
+      if (w.dying && w.alive) {
+        w.alpha -= dt * 3;
+        if (w.alpha <= 0) {
+          w.alpha = 0;
+          w.alive = false;
+          events.emit('warrior_dead', { tick, warrior: w });
+        }
+      }
+      if (w.healPulse) {
+        w.healPulseTimer -= dt * 1000;
+        if (w.healPulseTimer <= 0) w.healPulse = false;
+      }
+    }
+
+    this.checkRoundEnd();
+    if (this.running && this.deadlineTick !== null && tick >= this.deadlineTick) this.decideOnHp();
+  }
+
+  /** Shrink the walls and raise the damage scale for the current tick. */
+  private advanceSuddenDeath(cfg: SuddenDeathConfig): void {
+    const state = suddenDeathAt(cfg, this.timeMs);
+    if (!state.active) return;
+    if (!this.suddenDeathActive) {
+      this.suddenDeathActive = true;
+      this.events.emit('sudden_death', { tick: this.tick, deadlineTick: this.deadlineTick! });
+    }
+    if (state.scale !== this.arena.scale) this.arena = this.baseArena.shrunk(state.scale);
+    this.combat.damageScale = state.damageScale;
+  }
+
+  /**
+   * Time limit reached: the player's team wins only with strictly more HP
+   * standing than every other team.
+   */
+  private decideOnHp(): void {
+    const hp = new Map<number, number>();
+    for (const w of this.warriors) {
+      if (w.alive && !w.dying) hp.set(w.team, (hp.get(w.team) ?? 0) + w.hp);
+    }
+    const mine = hp.get(PLAYER_TEAM) ?? 0;
+    const win = [...hp].every(([team, total]) => team === PLAYER_TEAM || total < mine);
+    this.finish(win, false, true);
+  }
+
+  /**
+   * Lost once nobody on the player's team is standing; won once theirs is
+   * the only team left. In free-for-all that is "player last alive".
+   */
+  private checkRoundEnd(): void {
+    const standing = new Set(this.warriors.filter(w => w.alive && !w.dying).map(w => w.team));
+    if (!standing.has(PLAYER_TEAM)) this.finish(false, false, false);
+    else if (standing.size === 1) this.finish(true, false, false);
+  }
+
+  /** End a still-running round as a loss (e.g. the simulator's tick cap). */
+  forfeit(): void {
+    if (this.running) this.finish(false, true, false);
+  }
+
+  private finish(win: boolean, forfeited: boolean, timeLimit: boolean): void {
+    this.outcome = win ? 'win' : 'lose';
+    this.events.emit('round_end', { tick: this.tick, outcome: this.outcome, forfeited, timeLimit });
+  }
+}
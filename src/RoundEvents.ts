@@ -0,0 +1,79 @@
+import type { EventBus } from './EventBus';
+import type { Warrior } from './Warrior';
+import type { DamageEvent } from './Combat';
+import type { BoosterPickup, BoosterType } from './Boosters';
+import type { OutcomeParams } from './OutcomeController';
+
+/** Every payload carries the engine tick it happened on. */
+interface Ticked {
+  tick: number;
+}
+
+export interface RoundStartEvent extends Ticked {
+  warriors: readonly Warrior[];
+  params: OutcomeParams;
+}
+
+/** A hit that actually landed, after booster effects, including damage a booster sent back. */
+export interface DamageTakenEvent extends DamageEvent, Ticked {}
+
+/** A hit the victim's shield absorbed; `damage` is what it would have dealt. */
+export interface ShieldBlockEvent extends DamageEvent, Ticked {}
+
+export interface BoosterSpawnEvent extends Ticked {
+  booster: BoosterPickup;
+  /** True for purchases made while the round was running. */
+  midRound: boolean;
+}
+
+export interface BoosterPickupEvent extends Ticked {
+  warrior: Warrior;
+  booster: BoosterPickup;
+  /** Short label describing the applied effect, e.g. '+10 HP'. */
+  message: string;
+}
+
+/** A lasting booster effect ran out of time or charges. */
+export interface BoosterExpireEvent extends Ticked {
+  warrior: Warrior;
+  type: BoosterType;
+}
+
+export interface WarriorDyingEvent extends Ticked {
+  warrior: Warrior;
+  /** Attacker of the finishing hit (for body_body, the other warrior). */
+  killer: Warrior | null;
+}
+
+export interface WarriorDeadEvent extends Ticked {
+  warrior: Warrior;
+}
+
+/** The boundary starts shrinking and damage starts ramping up. */
+export interface SuddenDeathEvent extends Ticked {
+  /** Tick at which the round will be decided on HP if still running. */
+  deadlineTick: number;
+}
+
+export interface RoundEndEvent extends Ticked {
+  outcome: 'win' | 'lose';
+  /** True when the round was cut short (e.g. the simulator's tick cap). */
+  forfeited: boolean;
+  /** True when the sudden-death time limit decided the round on HP. */
+  timeLimit: boolean;
+}
+
+export interface RoundEventMap {
+  round_start:    RoundStartEvent;
+  damage:         DamageTakenEvent;
+  booster_spawn:  BoosterSpawnEvent;
+  booster_pickup: BoosterPickupEvent;
+  booster_expire: BoosterExpireEvent;
+  shield_block:   ShieldBlockEvent;
+  warrior_dying:  WarriorDyingEvent;
+  warrior_dead:   WarriorDeadEvent;
+  sudden_death:   SuddenDeathEvent;
+  round_end:      RoundEndEvent;
+}
+
+export type RoundEvents = EventBus<RoundEventMap>;
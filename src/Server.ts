@@ -0,0 +1,146 @@
+/**
+ * Reference game server: GameServer behind plain node:http, sessions held
+ * in memory. Point the browser at it with ?server=http://localhost:8787.
+ *
+ *   npm run serve -- --port 8787 --balance 1000 --strategy fixed --win-prob 0.8
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { GameServer } from './GameServer';
+import { OutcomeController, StrategyName } from './OutcomeController';
+import { ProtocolError, parseBoosterPurchase, parseRoundRequest } from './Protocol';
+
+const STRATEGIES: StrategyName[] = ['neutral', 'fixed', 'adaptive'];
+/** Requests are a handful of fields; anything bigger is turned away. */
+const MAX_BODY_BYTES = 16 * 1024;
+
+const USAGE = [
+  'Usage: npm run serve -- [options]',
+  '',
+  '  --port <n>            Port to listen on                (default 8787)',
+  '  --balance <n>         Balance of a new session in FUN  (default 1000)',
+  `  --strategy <name>     ${STRATEGIES.join('|').padEnd(33)}(default fixed)`,
+  '  --win-prob <p>        Outcome win probability, 0-1     (default 0.8)',
+  '  -h, --help            Show this help',
+].join('\n');
+
+type Handler = (params: string[], body: unknown) => unknown;
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) {
+        chunks.push(chunk);
+        return;
+      }
+      // Take no more of it; the 413 closes the connection behind it
+      req.pause();
+      req.removeAllListeners('data');
+      reject(new ProtocolError('too_large', `Request body over ${MAX_BODY_BYTES} bytes`));
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(text === '' ? {} : JSON.parse(text));
+      } catch {
+        reject(new ProtocolError('bad_request', 'Request body is not JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/** Method and path pattern to handler, which gets the ids in the path in order. */
+function routes(server: GameServer): [string, RegExp, Handler][] {
+  const id = '([\\w-]+)';
+  return [
+    ['POST', new RegExp('^/sessions$'),                             ()             => server.createSession()],
+    ['GET',  new RegExp(`^/sessions/${id}$`),                       ([s])          => server.getSession(s)],
+    ['POST', new RegExp(`^/sessions/${id}/rounds$`),                ([s], body)    => server.openRound(s, parseRoundRequest(body))],
+    ['POST', new RegExp(`^/sessions/${id}/rounds/${id}/boosters$`), ([s, r], body) => server.buyBooster(s, r, parseBoosterPurchase(body))],
+    ['POST', new RegExp(`^/sessions/${id}/rounds/${id}/close$`),    ([s, r])       => server.closeRound(s, r)],
+  ];
+}
+
+async function handle(table: [string, RegExp, Handler][], req: IncomingMessage, res: ServerResponse): Promise<void> {
+  // The game is served from another origin (vite), so every response allows it
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  try {
+    for (const [method, pattern, handler] of table) {
+      const match = pattern.exec(path);
+      if (!match || method !== req.method) continue;
+      const body = method === 'POST' ? await readBody(req) : undefined;
+      send(res, 200, handler(match.slice(1), body));
+      return;
+    }
+    throw new ProtocolError('not_found', `No route for ${req.method} ${path}`);
+  } catch (err) {
+    if (err instanceof ProtocolError) {
+      if (err.code === 'too_large') res.setHeader('Connection', 'close');
+      send(res, err.status, err.toBody());
+    } else {
+      console.error(err);
+      send(res, 500, { error: 'internal', message: 'Internal server error' });
+    }
+  }
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      port:       { type: 'string', default: '8787' },
+      balance:    { type: 'string', default: '1000' },
+      strategy:   { type: 'string', default: 'fixed' },
+      'win-prob': { type: 'string', default: '0.8' },
+      help:       { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const port = Number(values.port);
+  const balance = Number(values.balance);
+  const winProb = Number(values['win-prob']);
+  const strategy = values.strategy as StrategyName;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error(`Invalid --port: ${values.port}`);
+  if (!(balance >= 0)) throw new Error(`Invalid --balance: ${values.balance}`);
+  if (!(winProb >= 0 && winProb <= 1)) throw new Error(`Invalid --win-prob: ${values['win-prob']}`);
+  if (!STRATEGIES.includes(strategy)) throw new Error(`Invalid --strategy: ${values.strategy}`);
+
+  const createOutcome = (): OutcomeController => {
+    const outcome = new OutcomeController();
+    outcome.setWinProbability(winProb);
+    outcome.useStrategy(strategy);
+    return outcome;
+  };
+  const table = routes(new GameServer({ initialBalance: balance, createOutcome }));
+
+  createServer((req, res) => { void handle(table, req, res); })
+    .listen(port, () => console.log(`Game server listening on http://localhost:${port}`));
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(`${(err as Error).message}\n\n${USAGE}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,59 @@
+import {
+  BoosterPurchase, ProtocolError, ProtocolErrorBody, RoundRequest, RoundState, SessionState, PROTOCOL_VERSION,
+} from './Protocol';
+import { checkRecording } from './Replay';
+
+/** Where the game keeps its server session id between visits. */
+export const SERVER_SESSION_KEY = 'circle-warriors.server-session';
+
+/** Browser side of Protocol.ts: one method per endpoint, errors thrown as ProtocolError. */
+export class ServerClient {
+  constructor(readonly baseUrl: string) {}
+
+  async createSession(): Promise<SessionState> {
+    return this.session(await this.call('POST', '/sessions'));
+  }
+
+  async getSession(sessionId: string): Promise<SessionState> {
+    return this.session(await this.call('GET', `/sessions/${sessionId}`));
+  }
+
+  async openRound(sessionId: string, req: RoundRequest): Promise<RoundState> {
+    return this.round(await this.call('POST', `/sessions/${sessionId}/rounds`, req));
+  }
+
+  async buyBooster(sessionId: string, roundId: string, purchase: BoosterPurchase): Promise<RoundState> {
+    return this.round(await this.call('POST', `/sessions/${sessionId}/rounds/${roundId}/boosters`, purchase));
+  }
+
+  async closeRound(sessionId: string, roundId: string): Promise<SessionState> {
+    return this.session(await this.call('POST', `/sessions/${sessionId}/rounds/${roundId}/close`));
+  }
+
+  private async call(method: 'GET' | 'POST', path: string, body?: object): Promise<unknown> {
+    const res = await fetch(`${this.baseUrl.replace(/\/+$/, '')}${path}`, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body:    body ? JSON.stringify(body) : undefined,
+    });
+    const json = await res.json() as unknown;
+    if (!res.ok) {
+      const err = json as Partial<ProtocolErrorBody>;
+      throw new ProtocolError(err.error ?? 'bad_request', err.message ?? `${res.status} ${res.statusText}`);
+    }
+    return json;
+  }
+
+  private session(json: unknown): SessionState {
+    const state = json as SessionState;
+    if (state.version !== PROTOCOL_VERSION) {
+      throw new Error(`Unsupported protocol version ${state.version} (expected ${PROTOCOL_VERSION})`);
+    }
+    return { ...state, openRound: state.openRound && this.round(state.openRound) };
+  }
+
+  private round(json: unknown): RoundState {
+    const state = json as RoundState;
+    return { ...state, recording: checkRecording(state.recording) };
+  }
+}
@@ -0,0 +1,282 @@
+import type { Economy } from './Economy';
+import type { RoundEvents } from './RoundEvents';
+import type { BoosterPickup, BoosterType } from './Boosters';
+import { ARCHETYPES, Warrior, WarriorColor } from './Warrior';
+import { CLASSIC_MIN_WARRIORS, CLASSIC_MAX_WARRIORS, FIXED_DT, TeamLayout, fieldColors } from './RoundEngine';
+
+/** Stake per side bet, in FUN. */
+export const SIDE_BET_STAKE = 1;
+
+export type SideBetKind = 'first_blood' | 'finishing_order' | 'duration' | 'booster_collected';
+
+export type SideBetPick =
+  /** Warrior id (0 = the player) to land the first weapon hit. */
+  | { kind: 'first_blood'; warrior: number }
+  /** Ids of the non-player warriors, best finish first. */
+  | { kind: 'finishing_order'; order: number[] }
+  | { kind: 'duration'; over: boolean }
+  | { kind: 'booster_collected'; collected: boolean };
+
+export type SideBet = SideBetPick & { stake: number };
+
+/**
+ * Return per FUN staked on a winning side bet (stake included). Tables
+ * keyed by warriors in the round; see `npm run simulate -- --side-bets`
+ * for the RTP each pick actually gets.
+ */
+export interface SideBetPaytable {
+  firstBlood: Record<number, number>;
+  finishingOrder: Record<number, number>;
+  duration: number;
+  /** Over/under line in seconds. A round ending on the very tick of the line is a push. */
+  durationLine: Record<number, number>;
+  /** Per side; null where the outcome is too likely to pay above evens. */
+  boosterCollected: Record<number, { yes: number | null; no: number | null }>;
+}
+
+/**
+ * One multiplier per bet, so the archetypes on the field make some picks
+ * better than others. Each is set so that at the default fixed 80%
+ * strategy even the likeliest pick returns under 100%; the rest less.
+ */
+export const DEFAULT_SIDE_BET_PAYTABLE: SideBetPaytable = {
+  firstBlood:       { 2: 1.9, 3: 2.7, 4: 3.4 },
+  finishingOrder:   { 3: 1.6, 4: 4 },
+  duration:         1.8,
+  durationLine:     { 2: 48.5, 3: 28.5, 4: 19.5 },
+  boosterCollected: {
+    2: { yes: null, no: 80 },
+    3: { yes: null, no: 15 },
+    4: { yes: 1.1,  no: 7 },
+  },
+};
+
+/** What the side bets are settled on, gathered from a round's events. */
+export interface RoundFacts {
+  /** Warrior id of the first landed weapon hit, or null if none landed. */
+  firstBlood: number | null;
+  /** Non-player warrior ids, best finish first. */
+  finishingOrder: number[];
+  /** Length in whole ticks, so a round lands on a line exactly or not at all. */
+  durationTicks: number;
+  /** Whether a booster was bought before START, and whether anyone collected it. */
+  boosterOffered: boolean;
+  boosterCollected: boolean;
+}
+
+/**
+ * Follows one round's events and records the facts side bets are settled
+ * on. Warriors knocked out later finish higher; those still standing at
+ * the end finish above all of them, by remaining HP.
+ */
+export class SideBetTracker {
+  facts: RoundFacts | null = null;
+
+  subscribe(events: RoundEvents): () => void {
+    let firstBlood: number | null = null;
+    let preRound: BoosterPickup | null = null;
+    let collected = false;
+    let warriors: readonly Warrior[] = [];
+    const knockedOut: number[] = [];
+
+    // round_end is listened for here, not on round_start, so the facts are in
+    // before anything subscribed after the tracker settles on them
+    const offs = [
+      events.on('round_start', (ev) => { warriors = ev.warriors; }),
+      events.on('damage', (ev) => {
+        if (firstBlood === null && ev.type === 'weapon_body') firstBlood = ev.attacker.id;
+      }),
+      events.on('booster_spawn', (ev) => { if (!ev.midRound) preRound = ev.booster; }),
+      events.on('booster_pickup', (ev) => { if (ev.booster === preRound) collected = true; }),
+      events.on('warrior_dying', (ev) => { knockedOut.push(ev.warrior.id); }),
+      events.on('round_end', (ev) => {
+        const standing = warriors
+          .filter(w => w.alive && !w.dying)
+          .sort((a, b) => b.hp - a.hp || a.id - b.id)
+          .map(w => w.id);
+        this.facts = {
+          firstBlood,
+          finishingOrder: [...standing, ...knockedOut.slice().reverse()].filter(id => id !== 0),
+          durationTicks: ev.tick,
+          boosterOffered: preRound !== null,
+          boosterCollected: collected,
+        };
+      }),
+    ];
+    return () => offs.forEach(off => off());
+  }
+}
+
+/** Side bets are offered in classic free-for-all rounds only. */
+export function sideBetsOffered(mode: number, teams: TeamLayout = 'ffa'): boolean {
+  return teams === 'ffa' && mode >= CLASSIC_MIN_WARRIORS && mode <= CLASSIC_MAX_WARRIORS;
+}
+
+/** Return multiplier of a pick in a round of `mode` warriors, or null if it can't be placed there. */
+export function sideBetMultiplier(pick: SideBetPick, mode: number, paytable = DEFAULT_SIDE_BET_PAYTABLE): number | null {
+  if (!sideBetsOffered(mode)) return null;
+  switch (pick.kind) {
+    case 'first_blood':
+      return Number.isInteger(pick.warrior) && pick.warrior >= 0 && pick.warrior < mode
+        ? paytable.firstBlood[mode] ?? null : null;
+    case 'finishing_order': {
+      const ids = [...pick.order].sort((a, b) => a - b);
+      return ids.length === mode - 1 && ids.every((id, i) => id === i + 1)
+        ? paytable.finishingOrder[mode] ?? null : null;
+    }
+    case 'duration':
+      return paytable.durationLine[mode] !== undefined ? paytable.duration : null;
+    case 'booster_collected': {
+      const sides = paytable.boosterCollected[mode];
+      return (pick.collected ? sides?.yes : sides?.no) ?? null;
+    }
+  }
+}
+
+/**
+ * What a bet returns: stake × multiplier if it won, 0 if it lost, and the
+ * stake back if the round gave it nothing to settle on (no weapon hit
+ * landed, or it ended right on the duration line).
+ */
+export function settleSideBet(bet: SideBet, facts: RoundFacts, mode: number, paytable = DEFAULT_SIDE_BET_PAYTABLE): number {
+  const multiplier = sideBetMultiplier(bet, mode, paytable) ?? 0;
+  let won: boolean;
+  switch (bet.kind) {
+    case 'first_blood':
+      if (facts.firstBlood === null) return bet.stake;
+      won = facts.firstBlood === bet.warrior;
+      break;
+    case 'finishing_order':
+      won = bet.order.every((id, i) => facts.finishingOrder[i] === id);
+      break;
+    case 'duration': {
+      const lineTicks = Math.round(paytable.durationLine[mode] / FIXED_DT);
+      if (facts.durationTicks === lineTicks) return bet.stake;
+      won = (facts.durationTicks > lineTicks) === bet.over;
+      break;
+    }
+    case 'booster_collected':
+      won = facts.boosterCollected === bet.collected;
+      break;
+  }
+  return won ? bet.stake * multiplier : 0;
+}
+
+export interface SideBetChoice {
+  label: string;
+  pick: SideBetPick;
+  multiplier: number;
+}
+
+export interface SideBetOption {
+  kind: SideBetKind;
+  label: string;
+  choices: SideBetChoice[];
+}
+
+/** Every order of `ids`, in lexicographic order of positions. */
+function permutations(ids: number[]): number[][] {
+  if (ids.length <= 1) return [ids];
+  return ids.flatMap((id, i) => permutations([...ids.slice(0, i), ...ids.slice(i + 1)]).map(rest => [id, ...rest]));
+}
+
+/** The side bets open for a round setup, each with every pick it can take. */
+export function sideBetOptions(
+  mode: number, teams: TeamLayout, playerColor: WarriorColor, booster: BoosterType | 'none',
+  paytable = DEFAULT_SIDE_BET_PAYTABLE,
+): SideBetOption[] {
+  if (!sideBetsOffered(mode, teams)) return [];
+  const colors = fieldColors(playerColor).slice(0, mode);
+  const name = (id: number): string => (id === 0 ? 'you' : `${ARCHETYPES[colors[id]].name} (${colors[id]})`);
+  // Picks the paytable doesn't price are left out
+  const choices = (picks: [string, SideBetPick][]): SideBetChoice[] => picks.flatMap(([label, pick]) => {
+    const multiplier = sideBetMultiplier(pick, mode, paytable);
+    return multiplier !== null ? [{ label, pick, multiplier }] : [];
+  });
+
+  const options: SideBetOption[] = [{
+    kind: 'first_blood',
+    label: 'First blood',
+    choices: choices(colors.map((_, id) => [name(id), { kind: 'first_blood', warrior: id }])),
+  }];
+  if (paytable.finishingOrder[mode] !== undefined) {
+    options.push({
+      kind: 'finishing_order',
+      label: 'Finishing order',
+      choices: choices(permutations(colors.map((_, id) => id).slice(1))
+        .map(order => [order.map(id => colors[id]).join(' › '), { kind: 'finishing_order', order }])),
+    });
+  }
+  if (paytable.durationLine[mode] !== undefined) {
+    const line = paytable.durationLine[mode];
+    options.push({
+      kind: 'duration',
+      label: 'Round length',
+      choices: choices([
+        [`over ${line} s`,  { kind: 'duration', over: true }],
+        [`under ${line} s`, { kind: 'duration', over: false }],
+      ]),
+    });
+  }
+  if (booster !== 'none') {
+    options.push({
+      kind: 'booster_collected',
+      label: 'Booster collected',
+      choices: choices([
+        ['yes', { kind: 'booster_collected', collected: true }],
+        ['no',  { kind: 'booster_collected', collected: false }],
+      ]),
+    });
+  }
+  return options.filter(o => o.choices.length > 0);
+}
+
+export interface SideBetResult {
+  bet: SideBet;
+  returned: number;
+}
+
+/**
+ * The side bets of one live round: staked from the Economy when placed,
+ * settled back into it when the round ends.
+ */
+export class SideBetBook {
+  readonly bets: SideBet[];
+  readonly tracker = new SideBetTracker();
+  results: SideBetResult[] | null = null;
+
+  constructor(
+    bets: SideBet[],
+    private mode: number,
+    private economy: Economy,
+    private paytable = DEFAULT_SIDE_BET_PAYTABLE,
+  ) {
+    for (const b of bets) {
+      if (sideBetMultiplier(b, mode, paytable) === null) throw new Error(`Side bet ${b.kind} can't be placed in this mode`);
+      if (!(b.stake > 0)) throw new Error(`Side bet ${b.kind} needs a positive stake`);
+    }
+    this.bets = bets;
+    economy.placeSideBets(this.totalStake, bets.length);
+  }
+
+  get totalStake(): number {
+    return this.bets.reduce((sum, b) => sum + b.stake, 0);
+  }
+
+  get totalReturned(): number {
+    return this.results?.reduce((sum, r) => sum + r.returned, 0) ?? 0;
+  }
+
+  /** Track the round and settle once it ends. */
+  subscribe(events: RoundEvents): () => void {
+    const offs = [
+      this.tracker.subscribe(events),
+      events.on('round_end', () => {
+        const facts = this.tracker.facts!;
+        this.results = this.bets.map(bet => ({ bet, returned: settleSideBet(bet, facts, this.mode, this.paytable) }));
+        this.economy.settleSideBets(this.totalReturned);
+      }),
+    ];
+    return () => offs.forEach(off => off());
+  }
+}
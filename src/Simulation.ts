@@ -1,162 +1,498 @@
 /**
- * Headless simulation — run with: npx ts-node --esm src/Simulation.ts
- * (or via the simulate npm script)
+ * Headless simulation — drives the same RoundEngine as the live game,
+ * without any rendering. Run it through the CLI (SimulationCli.ts):
  *
- * Simulates 10,000 rounds without any rendering and reports:
- *  - observed win rate
+ *   npm run simulate -- --rounds 100000 --mode 3 --win-prob 0.3,0.5,0.7
+ *
+ * For each configuration it reports:
+ *  - observed win rate (with a Wilson confidence interval)
  *  - average finalProfit per round
- *  - RTP = total returned / total wagered
+ *  - RTP = total returned / total wagered (with a delta-method interval)
+ *  - round duration percentiles from a per-second histogram
+ *  - in classic free-for-all, the hit rate and RTP of every side-bet pick
  */
 
 import { Rng } from './Rng.js';
-import { Warrior, WARRIOR_RADIUS, WEAPON_RADIUS, WEAPON_OFFSET, WarriorColor } from './Warrior.js';
-import { Arena } from './Arena.js';
-import { integrateMotion, resolveWalls, resolveWarriorCollisions } from './Physics.js';
-import { processCollision, applyDamageEvents, clearCooldowns } from './Combat.js';
-import { Economy, BET_AMOUNT, BOOSTER_COST } from './Economy.js';
-import { OutcomeController } from './OutcomeController.js';
-
-const WARRIOR_COLORS_LIST: WarriorColor[] = ['red', 'blue', 'green', 'yellow'];
-const WARRIOR_SPEED = 120;
-const FIXED_DT = 1 / 60;
-const MAX_TICKS = 60 * 120; // 2 minutes max per round
-const ARENA_SIZE = 500;
-const arena = new Arena(0, 0, ARENA_SIZE);
-
-function runOneRound(
-  mode: number,
-  winProb: number,
-  hasBooster: boolean,
-  seed: number,
-): { win: boolean; finalProfit: number; totalWagered: number } {
-  const rng = new Rng(seed);
-  const ctrl = new OutcomeController();
-  ctrl.setWinProbability(winProb);
-  const params = ctrl.sampleParams(rng);
-
-  const economy = new Economy(10000); // large balance so we never block
-  economy.startRound(hasBooster);
-  clearCooldowns();
-
-  const count = mode;
-  const colors = [...WARRIOR_COLORS_LIST];
-
-  const positions: { x: number; y: number }[] = [];
-  const margin = WARRIOR_RADIUS + 20;
-  for (let i = 0; i < count; i++) {
-    let x = 0, y = 0, attempts = 0;
-    do {
-      x = rng.float(margin, ARENA_SIZE - margin);
-      y = rng.float(margin, ARENA_SIZE - margin);
-      attempts++;
-    } while (
-      attempts < 500 &&
-      positions.some(p => Math.hypot(p.x - x, p.y - y) < WARRIOR_RADIUS * 2.5)
-    );
-    positions.push({ x, y });
+import { Arena, ArenaLayoutName } from './Arena.js';
+import { Economy, PayoutConfig, BET_AMOUNT, DEFAULT_PAYTABLE, uniformPaytable } from './Economy.js';
+import { CombatResolver, CombatConfig, DEFAULT_COMBAT_CONFIG } from './Combat.js';
+import {
+  OutcomeController, OutcomeConfig, OutcomeDecision, StrategyName,
+  AdaptiveOptions, DEFAULT_OUTCOME_CONFIG,
+} from './OutcomeController.js';
+import { RoundEngine, TeamLayout, FIXED_DT, ARENA_SIZE, ARENA_ORIGIN } from './RoundEngine.js';
+import type { SuddenDeathConfig } from './SuddenDeath.js';
+import { BoosterType, PickupRule, boosterCost } from './Boosters.js';
+import { WarriorColor, PLAYER_TEAM } from './Warrior.js';
+import {
+  SideBetChoice, SideBetPaytable, SideBetTracker, DEFAULT_SIDE_BET_PAYTABLE, sideBetOptions, settleSideBet,
+} from './SideBets.js';
+
+const MAX_TICKS = 60 * 120; // 2 minutes max per round, for rounds without sudden death
+const TICKS_PER_SECOND = Math.round(1 / FIXED_DT);
+/** One-second duration buckets, (i, i+1] s; the last one also holds anything longer. */
+export const DURATION_BUCKETS = MAX_TICKS / TICKS_PER_SECOND + 1;
+const arenas = new Map<ArenaLayoutName, Arena>();
+
+function arenaFor(layout: ArenaLayoutName): Arena {
+  let arena = arenas.get(layout);
+  if (!arena) arenas.set(layout, arena = new Arena(ARENA_ORIGIN, ARENA_ORIGIN, ARENA_SIZE, layout));
+  return arena;
+}
+
+export interface SimConfig {
+  rounds: number;
+  /** Number of warriors, player included. */
+  mode: number;
+  /** Team split; defaults to free-for-all. */
+  teams?: TeamLayout;
+  /** Arena shape and obstacles; defaults to the open square. */
+  arena?: ArenaLayoutName;
+  winProb: number;
+  booster: BoosterType | 'none';
+  /** Who may collect the booster; defaults to the player only. */
+  pickups?: PickupRule;
+  playerColor: WarriorColor;
+  /** Offset into the seed sequence, so independent runs can be compared. */
+  seedBase: number;
+  /** Outcome param sets; defaults to the live game's. */
+  outcome?: OutcomeConfig;
+  /** Paytable row for this mode; defaults to the live game's. */
+  payout?: PayoutConfig;
+  /** Stake per round; defaults to BET_AMOUNT. */
+  stake?: number;
+  /** Cooldown and damage tables; defaults to the live game's. */
+  combat?: CombatConfig;
+  /** Sudden-death phase; null turns it off. Defaults to the live game's. */
+  suddenDeath?: SuddenDeathConfig | null;
+  /** Outcome strategy; defaults to 'fixed' at winProb. */
+  strategy?: StrategyName;
+  adaptive?: Partial<AdaptiveOptions>;
+  /** Side-bet paytable; defaults to the live game's. */
+  sideBets?: SideBetPaytable;
+}
+
+export const DEFAULT_SIM_CONFIG: SimConfig = {
+  rounds: 10_000,
+  mode: 2,
+  winProb: 0.5,
+  booster: 'none',
+  playerColor: 'red',
+  seedBase: 0,
+};
+
+export interface PickupCounts {
+  player: number;
+  ally: number;
+  enemy: number;
+}
+
+export interface RoundResult {
+  win: boolean;
+  finalProfit: number;
+  /** In-round profit before the win multiplier and bonus. */
+  roundProfit: number;
+  totalWagered: number;
+  ticks: number;
+  timedOut: boolean;
+  /** Settled on HP at the sudden-death time limit. */
+  timeLimit: boolean;
+  /** Boosters collected, by who collected them. */
+  pickups: PickupCounts;
+  /** What a 1 FUN bet on each side-bet pick returned, in sideBetChoices order. */
+  sideBets: number[];
+  decision: OutcomeDecision;
+}
+
+/** Seed for round i — Knuth multiplicative hash, exact in 32 bits. */
+export function roundSeed(seedBase: number, i: number): number {
+  return Math.imul(seedBase + i, 2654435761 | 0) >>> 0;
+}
+
+/** Every side-bet pick open in a configuration, flattened across bets. */
+export function sideBetChoices(cfg: SimConfig): (SideBetChoice & { bet: string })[] {
+  const options = sideBetOptions(cfg.mode, cfg.teams ?? 'ffa', cfg.playerColor, cfg.booster, cfg.sideBets);
+  return options.flatMap(o => o.choices.map(c => ({ bet: o.label, ...c })));
+}
+
+/** Controller for one simulated player session. */
+export function createController(cfg: SimConfig): OutcomeController {
+  const ctrl = new OutcomeController(cfg.outcome ?? DEFAULT_OUTCOME_CONFIG);
+  ctrl.setWinProbability(cfg.winProb);
+  ctrl.useStrategy(cfg.strategy ?? 'fixed', cfg.adaptive);
+  return ctrl;
+}
+
+/**
+ * Play one round. Pass the session's controller so stateful strategies
+ * see every settled round; a fresh one is made otherwise.
+ */
+export function runOneRound(cfg: SimConfig, seed: number, ctrl = createController(cfg)): RoundResult {
+  const rng = new Rng(seed).streams();
+  const decision = ctrl.decide(rng.outcome);
+
+  const economy = new Economy(10000, cfg.payout ? uniformPaytable(cfg.payout) : DEFAULT_PAYTABLE); // large balance so we never block
+  economy.setStake(cfg.stake ?? BET_AMOUNT);
+
+  const round = new RoundEngine({
+    mode: cfg.mode,
+    playerColor: cfg.playerColor,
+    booster: cfg.booster,
+    teams: cfg.teams,
+    pickups: cfg.pickups,
+    arena: arenaFor(cfg.arena ?? 'square'),
+    rng,
+    combat: new CombatResolver(cfg.combat ?? DEFAULT_COMBAT_CONFIG),
+    params: decision.params,
+    economy,
+    suddenDeath: cfg.suddenDeath,
+  });
+  let timeLimit = false;
+  const pickups: PickupCounts = { player: 0, ally: 0, enemy: 0 };
+  round.events.on('round_end', (ev) => { timeLimit = ev.timeLimit; });
+  round.events.on('booster_pickup', ({ warrior }) => {
+    pickups[warrior.isPlayer ? 'player' : warrior.team === PLAYER_TEAM ? 'ally' : 'enemy']++;
+  });
+  // Side bets only watch the round, so every pick can be settled on the same one
+  const choices = sideBetChoices(cfg);
+  const tracker = new SideBetTracker();
+  if (choices.length > 0) tracker.subscribe(round.events);
+
+  while (round.running && round.tick < MAX_TICKS) {
+    round.step(FIXED_DT);
   }
+  // Timeout: treat as lose
+  const timedOut = round.running;
+  round.forfeit();
+
+  const win = round.outcome === 'win';
+  const finalProfit = round.economy.finalProfit;
+  ctrl.recordResult({ wagered: round.wagered, returned: round.wagered + finalProfit, win });
+
+  return {
+    win,
+    finalProfit,
+    roundProfit: round.economy.roundProfit,
+    totalWagered: round.wagered,
+    ticks: round.tick,
+    timedOut,
+    timeLimit,
+    pickups,
+    sideBets: choices.map(c => settleSideBet(
+      { ...c.pick, stake: 1 }, tracker.facts!, cfg.mode, cfg.sideBets ?? DEFAULT_SIDE_BET_PAYTABLE,
+    )),
+    decision,
+  };
+}
+
+/**
+ * Running sums for a batch of rounds. Everything but `maxTicks` is a plain
+ * sum (arrays element by element), so two aggregates over disjoint seed
+ * ranges merge by addition.
+ */
+export interface SimAggregate {
+  rounds: number;
+  wins: number;
+  timeouts: number;
+  /** Rounds decided on HP at the sudden-death time limit. */
+  timeLimits: number;
+  ticks: number;
+  maxTicks: number;
+  /** Rounds per one-second duration bucket, see DURATION_BUCKETS. */
+  durationHist: number[];
+  /** Boosters collected by the player, an ally or an enemy. */
+  pickupsPlayer: number;
+  pickupsAlly: number;
+  pickupsEnemy: number;
+  profit: number;
+  wagered: number;
+  returned: number;
+  /** Second moments for the RTP ratio-estimator variance. */
+  returnedSq: number;
+  wageredSq: number;
+  returnedWagered: number;
+  /**
+   * Σ pre-multiplier profit, and the same over won rounds with positive
+   * profit. The economy only observes a round, so these are enough to
+   * re-price the batch under a different multiplier or reward scale.
+   */
+  roundProfit: number;
+  winningRoundProfit: number;
+  /** Per side-bet pick (sideBetChoices order): wins, pushes, Σ returned and Σ returned². */
+  sideBetWins: number[];
+  sideBetPushes: number[];
+  sideBetReturned: number[];
+  sideBetReturnedSq: number[];
+}
 
-  const warriors: Warrior[] = [];
-  for (let i = 0; i < count; i++) {
-    const angle = rng.angle();
-    const speed = i === 0 ? WARRIOR_SPEED * params.playerSpeedMul : WARRIOR_SPEED;
-    const w = new Warrior({
-      id: i,
-      color: colors[i],
-      isPlayer: i === 0,
-      px: positions[i].x,
-      py: positions[i].y,
-      vx: Math.cos(angle) * speed,
-      vy: Math.sin(angle) * speed,
-      speed,
-    });
-    w.updateWeaponPos();
-    warriors.push(w);
+const AGGREGATE_ARRAYS = ['durationHist', 'sideBetWins', 'sideBetPushes', 'sideBetReturned', 'sideBetReturnedSq'] as const;
+type AggregateArray = typeof AGGREGATE_ARRAYS[number];
+
+/** Element-wise sum; an array a batch never filled counts as zeros. */
+function addArrays(a: number[], b: number[]): number[] {
+  return Array.from({ length: Math.max(a.length, b.length) }, (_, i) => (a[i] ?? 0) + (b[i] ?? 0));
+}
+
+export function emptyAggregate(): SimAggregate {
+  return {
+    rounds: 0, wins: 0, timeouts: 0, timeLimits: 0, ticks: 0, maxTicks: 0,
+    durationHist: new Array<number>(DURATION_BUCKETS).fill(0),
+    pickupsPlayer: 0, pickupsAlly: 0, pickupsEnemy: 0, profit: 0,
+    wagered: 0, returned: 0, returnedSq: 0, wageredSq: 0, returnedWagered: 0,
+    roundProfit: 0, winningRoundProfit: 0,
+    sideBetWins: [], sideBetPushes: [], sideBetReturned: [], sideBetReturnedSq: [],
+  };
+}
+
+export function addRound(agg: SimAggregate, r: RoundResult): void {
+  const returned = r.totalWagered + r.finalProfit;
+  agg.rounds++;
+  if (r.win) agg.wins++;
+  if (r.timedOut) agg.timeouts++;
+  if (r.timeLimit) agg.timeLimits++;
+  agg.ticks           += r.ticks;
+  agg.maxTicks         = Math.max(agg.maxTicks, r.ticks);
+  agg.durationHist[Math.min(DURATION_BUCKETS - 1, Math.max(0, Math.ceil(r.ticks / TICKS_PER_SECOND) - 1))]++;
+  agg.pickupsPlayer   += r.pickups.player;
+  agg.pickupsAlly     += r.pickups.ally;
+  agg.pickupsEnemy    += r.pickups.enemy;
+  agg.profit          += r.finalProfit;
+  agg.wagered         += r.totalWagered;
+  agg.returned        += returned;
+  agg.returnedSq      += returned * returned;
+  agg.wageredSq       += r.totalWagered * r.totalWagered;
+  agg.returnedWagered += returned * r.totalWagered;
+  agg.roundProfit     += r.roundProfit;
+  if (r.win && r.roundProfit > 0) agg.winningRoundProfit += r.roundProfit;
+  r.sideBets.forEach((ret, i) => {
+    agg.sideBetWins[i]       = (agg.sideBetWins[i] ?? 0) + (ret > 1 ? 1 : 0);
+    agg.sideBetPushes[i]     = (agg.sideBetPushes[i] ?? 0) + (ret === 1 ? 1 : 0);
+    agg.sideBetReturned[i]   = (agg.sideBetReturned[i] ?? 0) + ret;
+    agg.sideBetReturnedSq[i] = (agg.sideBetReturnedSq[i] ?? 0) + ret * ret;
+  });
+}
+
+export function mergeAggregates(a: SimAggregate, b: SimAggregate): SimAggregate {
+  const out = emptyAggregate();
+  for (const k of Object.keys(out) as Exclude<keyof SimAggregate, AggregateArray>[]) {
+    if ((AGGREGATE_ARRAYS as readonly string[]).includes(k) || k === 'maxTicks') continue;
+    out[k] = a[k] + b[k];
   }
+  out.maxTicks = Math.max(a.maxTicks, b.maxTicks);
+  for (const k of AGGREGATE_ARRAYS) out[k] = addArrays(a[k], b[k]);
+  return out;
+}
 
-  // Fake monotonic time for cooldowns
-  let simTime = 0;
-  let tick = 0;
-
-  while (tick < MAX_TICKS) {
-    tick++;
-    simTime += FIXED_DT * 1000; // ms
-
-    const alive = warriors.filter(w => w.alive && !w.dying);
-    integrateMotion(alive, FIXED_DT);
-    resolveWalls(alive, arena);
-    const pairs = resolveWarriorCollisions(alive);
-
-    for (const pair of pairs) {
-      const raw = processCollision(pair, simTime, params, () => rng.next());
-      const applied = applyDamageEvents(raw);
-      for (const ev of applied) {
-        economy.processDamageEvent(ev);
-      }
-    }
-
-    // Process dying
-    for (const w of warriors) {
-      if (w.dying && w.alive) {
-        w.alpha -= FIXED_DT * 3;
-        if (w.alpha <= 0) {
-          w.alpha = 0;
-          w.alive = false;
-        }
-      }
-    }
-
-    const player = warriors[0];
-    const playerAlive = player.alive && !player.dying;
-    const aliveNonDying = warriors.filter(w => w.alive && !w.dying);
-
-    if (!playerAlive || aliveNonDying.length === 1) {
-      const win = playerAlive && aliveNonDying.length === 1;
-      economy.finaliseRound(win);
-      const wagered = BET_AMOUNT + (hasBooster ? BOOSTER_COST : 0);
-      return { win, finalProfit: economy.finalProfit, totalWagered: wagered };
-    }
+/**
+ * Rounds per merge unit. Each chunk is summed on its own and chunks are
+ * merged in index order, so the floating-point totals come out identical
+ * no matter how many workers the chunks were spread across.
+ */
+export const CHUNK_ROUNDS = 1000;
+
+export function chunkCount(rounds: number): number {
+  return Math.ceil(rounds / CHUNK_ROUNDS);
+}
+
+/** Round range [from, to) covered by chunk k. */
+export function chunkRange(cfg: SimConfig, k: number): [number, number] {
+  const from = k * CHUNK_ROUNDS;
+  return [from, Math.min(from + CHUNK_ROUNDS, cfg.rounds)];
+}
+
+/** Merge per-chunk aggregates, which must be indexed by chunk number. */
+export function mergeChunks(chunks: SimAggregate[]): SimAggregate {
+  return chunks.reduce(mergeAggregates, emptyAggregate());
+}
+
+/**
+ * Simulate rounds [from, to) of a configuration's seed sequence as one
+ * player session (one controller), so a chunk is also a session for
+ * stateful strategies like 'adaptive'.
+ */
+export function simulateRange(cfg: SimConfig, from: number, to: number): SimAggregate {
+  const agg = emptyAggregate();
+  const ctrl = createController(cfg);
+  for (let i = from; i < to; i++) {
+    addRound(agg, runOneRound(cfg, roundSeed(cfg.seedBase, i), ctrl));
   }
+  return agg;
+}
 
-  // Timeout: treat as lose
-  economy.finaliseRound(false);
-  const wagered = BET_AMOUNT + (hasBooster ? BOOSTER_COST : 0);
-  return { win: false, finalProfit: economy.finalProfit, totalWagered: wagered };
-}
-
-function simulate(rounds = 10_000, winProb = 0.5, mode = 2, hasBooster = false): void {
-  console.log(`\n=== Circle Warriors Simulation ===`);
-  console.log(`Rounds: ${rounds} | Mode: 1vs${mode - 1} | WinProb: ${(winProb * 100).toFixed(0)}% | Booster: ${hasBooster}`);
-  console.log('----------------------------------');
-
-  let wins = 0;
-  let totalProfit = 0;
-  let totalWagered = 0;
-  let totalReturned = 0;
-
-  for (let i = 0; i < rounds; i++) {
-    const seed = (i * 2654435761) >>> 0;
-    const result = runOneRound(mode, winProb, hasBooster, seed);
-    if (result.win) wins++;
-    totalProfit += result.finalProfit;
-    totalWagered += result.totalWagered;
-    totalReturned += result.totalWagered + result.finalProfit;
+export interface Interval {
+  low: number;
+  high: number;
+}
+
+export interface DurationSummary {
+  /** Seconds of round time. */
+  mean: number;
+  /** Percentiles, rounded up to the whole second. */
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+  /** Rounds lasting (i, i+1] seconds, at index i. */
+  histogram: number[];
+}
+
+export interface SideBetSummary {
+  /** The side bet and the pick on it, e.g. "First blood" / "you". */
+  bet: string;
+  pick: string;
+  multiplier: number;
+  hitRate: number;
+  /** Share of rounds that gave the bet nothing to settle on. */
+  pushRate: number;
+  rtp: number;
+  rtpCi: Interval;
+}
+
+export interface SimSummary {
+  config: SimConfig;
+  rounds: number;
+  winRate: number;
+  winRateCi: Interval;
+  avgProfit: number;
+  totalWagered: number;
+  totalReturned: number;
+  rtp: number;
+  rtpCi: Interval;
+  timeouts: number;
+  timeLimits: number;
+  avgTicks: number;
+  duration: DurationSummary;
+  /** Share of rounds whose booster went to the player, an ally or an enemy (0 without a booster). */
+  pickups: PickupCounts;
+  /** One row per side-bet pick open in the configuration; empty outside classic free-for-all. */
+  sideBets: SideBetSummary[];
+}
+
+/** Two-sided z-scores for the supported confidence levels. */
+export const Z_SCORES: Record<string, number> = {
+  '0.9': 1.6449,
+  '0.95': 1.96,
+  '0.99': 2.5758,
+};
+
+/** Wilson score interval for a binomial proportion. */
+export function wilsonInterval(successes: number, n: number, z: number): Interval {
+  if (n === 0) return { low: 0, high: 0 };
+  const p = successes / n;
+  const z2 = z * z;
+  const denom = 1 + z2 / n;
+  const centre = (p + z2 / (2 * n)) / denom;
+  const half = (z * Math.sqrt(p * (1 - p) / n + z2 / (4 * n * n))) / denom;
+  return { low: Math.max(0, centre - half), high: Math.min(1, centre + half) };
+}
+
+/**
+ * Normal interval for RTP = Σreturned / Σwagered, using the delta-method
+ * variance of a ratio estimator (wagers vary once boosters are bought).
+ */
+export function rtpInterval(agg: SimAggregate, z: number): Interval {
+  const n = agg.rounds;
+  if (n < 2 || agg.wagered === 0) return { low: 0, high: 0 };
+  const rtp = agg.returned / agg.wagered;
+  const meanW = agg.wagered / n;
+  // Σ(r - R·w)² expanded so it only needs the running sums
+  const ss = agg.returnedSq - 2 * rtp * agg.returnedWagered + rtp * rtp * agg.wageredSq;
+  const variance = Math.max(0, ss) / (n - 1) / (n * meanW * meanW);
+  const half = z * Math.sqrt(variance);
+  return { low: rtp - half, high: rtp + half };
+}
+
+/** Normal interval for the mean return of a 1 FUN side bet on pick i. */
+function sideBetRtpInterval(agg: SimAggregate, i: number, z: number): Interval {
+  const n = agg.rounds;
+  if (n < 2) return { low: 0, high: 0 };
+  const mean = agg.sideBetReturned[i] / n;
+  const variance = Math.max(0, agg.sideBetReturnedSq[i] - n * mean * mean) / (n - 1);
+  const half = z * Math.sqrt(variance / n);
+  return { low: mean - half, high: mean + half };
+}
+
+export function summariseSideBets(config: SimConfig, agg: SimAggregate, z: number): SideBetSummary[] {
+  const n = agg.rounds;
+  if (n === 0) return [];
+  return sideBetChoices(config).map((c, i) => ({
+    bet: c.bet,
+    pick: c.label,
+    multiplier: c.multiplier,
+    hitRate: agg.sideBetWins[i] / n,
+    pushRate: agg.sideBetPushes[i] / n,
+    rtp: agg.sideBetReturned[i] / n,
+    rtpCi: sideBetRtpInterval(agg, i, z),
+  }));
+}
+
+/** Smallest whole second by which a share `p` of rounds had ended. */
+function histogramPercentile(hist: number[], rounds: number, p: number): number {
+  if (rounds === 0) return 0;
+  let seen = 0;
+  for (let i = 0; i < hist.length; i++) {
+    seen += hist[i];
+    if (seen >= p * rounds) return i + 1;
   }
+  return hist.length;
+}
+
+export function summariseDuration(agg: SimAggregate): DurationSummary {
+  const n = agg.rounds;
+  return {
+    mean: n > 0 ? agg.ticks / n / TICKS_PER_SECOND : 0,
+    p50: histogramPercentile(agg.durationHist, n, 0.5),
+    p90: histogramPercentile(agg.durationHist, n, 0.9),
+    p99: histogramPercentile(agg.durationHist, n, 0.99),
+    max: agg.maxTicks / TICKS_PER_SECOND,
+    histogram: agg.durationHist,
+  };
+}
+
+export function summarise(config: SimConfig, agg: SimAggregate, z = Z_SCORES['0.95']): SimSummary {
+  const n = agg.rounds;
+  return {
+    config,
+    rounds: n,
+    winRate: n > 0 ? agg.wins / n : 0,
+    winRateCi: wilsonInterval(agg.wins, n, z),
+    avgProfit: n > 0 ? agg.profit / n : 0,
+    totalWagered: agg.wagered,
+    totalReturned: agg.returned,
+    rtp: agg.wagered > 0 ? agg.returned / agg.wagered : 0,
+    rtpCi: rtpInterval(agg, z),
+    timeouts: agg.timeouts,
+    timeLimits: agg.timeLimits,
+    avgTicks: n > 0 ? agg.ticks / n : 0,
+    duration: summariseDuration(agg),
+    pickups: {
+      player: n > 0 ? agg.pickupsPlayer / n : 0,
+      ally:   n > 0 ? agg.pickupsAlly / n : 0,
+      enemy:  n > 0 ? agg.pickupsEnemy / n : 0,
+    },
+    sideBets: summariseSideBets(config, agg, z),
+  };
+}
 
-  const winRate = wins / rounds;
-  const avgProfit = totalProfit / rounds;
-  const rtp = totalWagered > 0 ? totalReturned / totalWagered : 0;
+/**
+ * What a booster is worth: the extra final profit per round it brings
+ * over `baseline` (the same configuration and seeds without a booster),
+ * per FUN it costs. 1 breaks even; contested pickups pull it down.
+ */
+export function boosterValue(withBooster: SimSummary, baseline: SimSummary): number {
+  const cost = boosterCost(withBooster.config.booster);
+  return cost > 0 ? (withBooster.avgProfit - baseline.avgProfit) / cost : 0;
+}
 
-  console.log(`Win Rate:     ${(winRate * 100).toFixed(2)}%  (target: ${(winProb * 100).toFixed(0)}%)`);
-  console.log(`Avg Profit:   ${avgProfit.toFixed(3)} FUN per round`);
-  console.log(`Total Wagered: ${totalWagered.toFixed(0)} FUN`);
-  console.log(`Total Returned:${totalReturned.toFixed(0)} FUN`);
-  console.log(`RTP:          ${(rtp * 100).toFixed(2)}%  (target: ~95%)`);
-  console.log('==================================\n');
+/** Single-threaded chunked run; matches SimulationPool.run for any worker count. */
+export function simulateAggregate(cfg: SimConfig): SimAggregate {
+  const chunks: SimAggregate[] = [];
+  for (let k = 0; k < chunkCount(cfg.rounds); k++) {
+    chunks.push(simulateRange(cfg, ...chunkRange(cfg, k)));
+  }
+  return mergeChunks(chunks);
 }
 
-// Run several configurations
-simulate(10_000, 0.5, 2, false);
-simulate(10_000, 0.5, 4, false);
-simulate(10_000, 0.7, 2, true);
-simulate(10_000, 0.3, 2, false);
+export function simulate(cfg: SimConfig, z = Z_SCORES['0.95']): SimSummary {
+  return summarise(cfg, simulateAggregate(cfg), z);
+}
@@ -0,0 +1,400 @@
+/**
+ * Command-line front end for the headless simulator.
+ *
+ *   npm run simulate -- --rounds 100000 --mode 3 --win-prob 0.3,0.5,0.7 \
+ *     --booster glove --stake 1,10,100 --seed-base 42 --format csv --out results.csv
+ *
+ * List-valued options (comma separated) are swept as a full grid.
+ * --side-bets reports every side-bet pick instead, one row per pick.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  SimConfig, SimSummary, DEFAULT_SIM_CONFIG, Z_SCORES, simulate, boosterValue,
+} from './Simulation.js';
+import { SimulationPool, defaultWorkerCount } from './ParallelSimulation.js';
+import { TeamLayout, TEAM_LAYOUTS, isValidMode, modeLabel, teamLayoutSize } from './RoundEngine.js';
+import type { StrategyName } from './OutcomeController.js';
+import { BoosterType, PickupRule, BOOSTER_TYPES, PICKUP_RULES } from './Boosters.js';
+import { ARCHETYPES, WarriorColor } from './Warrior.js';
+import { ArenaLayoutName, ARENA_LAYOUT_NAMES } from './Arena.js';
+import { BET_AMOUNT } from './Economy.js';
+import { SuddenDeathConfig, DEFAULT_SUDDEN_DEATH } from './SuddenDeath.js';
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+const BOOSTER_CHOICES: (BoosterType | 'none')[] = ['none', ...BOOSTER_TYPES];
+const COLORS: WarriorColor[] = ['red', 'blue', 'green', 'yellow'];
+const FORMATS: OutputFormat[] = ['table', 'json', 'csv'];
+const STRATEGIES: StrategyName[] = ['neutral', 'fixed', 'adaptive'];
+
+const USAGE_ROWS: [string, string, string][] = [
+  ['--rounds <n>',         'Rounds per configuration',      String(DEFAULT_SIM_CONFIG.rounds)],
+  ['--mode <list>',        'Warriors per round, 2-4|16-64', String(DEFAULT_SIM_CONFIG.mode)],
+  ['--win-prob <list>',    'Outcome win probability, 0-1',  String(DEFAULT_SIM_CONFIG.winProb)],
+  ['--stake <list>',       'Bet per round in FUN',          String(BET_AMOUNT)],
+  ['--booster <list>',     BOOSTER_CHOICES.join('|'),       DEFAULT_SIM_CONFIG.booster],
+  ['--pickups <list>',     'Who may grab it: player|any',   'player'],
+  ['--arena <list>',       ARENA_LAYOUT_NAMES.join('|'),    'square'],
+  ['--teams <list>',       TEAM_LAYOUTS.join('|'),          'ffa'],
+  ['--warrior <list>',     `${COLORS.join('|')}|all`,       DEFAULT_SIM_CONFIG.playerColor],
+  ['--strategy <list>',    STRATEGIES.join('|'),            'fixed'],
+  ['--rtp-band <lo,hi>',   'Adaptive strategy target band', '0.93,0.97'],
+  ['--sudden-death <s>',   'Sudden-death start, or off',    String(DEFAULT_SUDDEN_DEATH.startMs / 1000)],
+  ['--max-duration <s>',   'Round time limit in seconds',   String(DEFAULT_SUDDEN_DEATH.maxDurationMs / 1000)],
+  ['--seed-base <n>',      'Offset into the seed sequence', String(DEFAULT_SIM_CONFIG.seedBase)],
+  ['--workers <n>',        'Worker threads (1 = in-process)', 'all cores'],
+  ['--confidence <level>', Object.keys(Z_SCORES).join('|'), '0.95'],
+  ['--side-bets',          'Report side-bet hit rates and RTP instead', ''],
+  ['--format <fmt>',       FORMATS.join('|'),               'table'],
+  ['--out <file>',         'Write results to a file instead of stdout', ''],
+  ['-h, --help',           'Show this help', ''],
+];
+
+/** Wide enough for the longest description that has a default after it. */
+const USAGE_DESC_WIDTH = Math.max(...USAGE_ROWS.filter(([, , def]) => def).map(([, desc]) => desc.length)) + 2;
+
+const USAGE = [
+  'Usage: npm run simulate -- [options]',
+  '',
+  ...USAGE_ROWS.map(([flag, desc, def]) =>
+    `  ${flag.padEnd(22)}${def ? `${desc.padEnd(USAGE_DESC_WIDTH)}(default ${def})` : desc}`),
+  '',
+  'List options take comma-separated values; every combination is simulated.',
+].join('\n');
+
+export interface CliOptions {
+  grid: SimConfig[];
+  z: number;
+  format: OutputFormat;
+  out: string | null;
+  workers: number;
+  /** Report the side-bet picks rather than the main game. */
+  sideBets: boolean;
+}
+
+function parseList<T>(raw: string | undefined, fallback: T, parse: (s: string) => T): T[] {
+  if (raw === undefined) return [fallback];
+  return raw.split(',').map(s => s.trim()).filter(s => s !== '').map(parse);
+}
+
+function parseIntArg(name: string, min: number, max = Number.MAX_SAFE_INTEGER): (s: string) => number {
+  return (s) => {
+    const n = Number(s);
+    if (!Number.isInteger(n) || n < min || n > max) {
+      throw new Error(`--${name} expects an integer in [${min}, ${max}], got "${s}"`);
+    }
+    return n;
+  };
+}
+
+function parseChoice<T extends string>(name: string, choices: readonly T[]): (s: string) => T {
+  return (s) => {
+    if (!(choices as readonly string[]).includes(s)) {
+      throw new Error(`--${name} expects one of ${choices.join(', ')}, got "${s}"`);
+    }
+    return s as T;
+  };
+}
+
+function parseMode(s: string): number {
+  const n = Number(s);
+  if (!isValidMode(n)) {
+    throw new Error(`--mode expects 2-4 (classic) or 16-64 (battle royale), got "${s}"`);
+  }
+  return n;
+}
+
+function parseProbability(s: string): number {
+  const p = Number(s);
+  if (s === '' || !Number.isFinite(p) || p < 0 || p > 1) {
+    throw new Error(`--win-prob expects values in [0, 1], got "${s}"`);
+  }
+  return p;
+}
+
+function parseStake(s: string): number {
+  const n = Number(s);
+  if (s === '' || !Number.isFinite(n) || n <= 0) {
+    throw new Error(`--stake expects amounts above 0, got "${s}"`);
+  }
+  return n;
+}
+
+function parseRtpBand(s: string): { targetLow: number; targetHigh: number } {
+  const [targetLow, targetHigh] = s.split(',').map(Number);
+  if (!Number.isFinite(targetLow) || !Number.isFinite(targetHigh) || targetLow <= 0 || targetLow > targetHigh) {
+    throw new Error(`--rtp-band expects "low,high" with 0 < low <= high, got "${s}"`);
+  }
+  return { targetLow, targetHigh };
+}
+
+function parseSuddenDeath(start: string | undefined, max: string | undefined): SuddenDeathConfig | null {
+  if (start === 'off') {
+    if (max !== undefined) throw new Error('--max-duration needs sudden death, which --sudden-death off turns off');
+    return null;
+  }
+  const d = DEFAULT_SUDDEN_DEATH;
+  const startMs = start !== undefined ? Number(start) * 1000 : d.startMs;
+  const maxDurationMs = max !== undefined ? Number(max) * 1000 : d.maxDurationMs;
+  if (start === '' || !Number.isFinite(startMs) || startMs < 0) {
+    throw new Error(`--sudden-death expects seconds >= 0 or "off", got "${start}"`);
+  }
+  if (max === '' || !Number.isFinite(maxDurationMs) || maxDurationMs <= startMs) {
+    throw new Error(`--max-duration expects seconds after the sudden-death start (${startMs / 1000}), got "${max ?? d.maxDurationMs / 1000}"`);
+  }
+  return { ...d, startMs, maxDurationMs };
+}
+
+export function parseCli(argv: string[]): CliOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      rounds:         { type: 'string' },
+      mode:           { type: 'string' },
+      'win-prob':     { type: 'string' },
+      booster:        { type: 'string' },
+      stake:          { type: 'string' },
+      pickups:        { type: 'string' },
+      warrior:        { type: 'string' },
+      teams:          { type: 'string' },
+      arena:          { type: 'string' },
+      strategy:       { type: 'string' },
+      'rtp-band':     { type: 'string' },
+      'sudden-death': { type: 'string' },
+      'max-duration': { type: 'string' },
+      'seed-base':    { type: 'string' },
+      workers:        { type: 'string' },
+      confidence:     { type: 'string' },
+      format:         { type: 'string' },
+      out:            { type: 'string' },
+      'side-bets':    { type: 'boolean' },
+      help:           { type: 'boolean', short: 'h' },
+    },
+    strict: true,
+  });
+  if (values.help) return null;
+
+  const d = DEFAULT_SIM_CONFIG;
+  const rounds   = values.rounds !== undefined ? parseIntArg('rounds', 1)(values.rounds) : d.rounds;
+  const seedBase = values['seed-base'] !== undefined ? parseIntArg('seed-base', 0)(values['seed-base']) : d.seedBase;
+  const workers  = values.workers !== undefined ? parseIntArg('workers', 1, 256)(values.workers) : defaultWorkerCount();
+  const modes    = parseList(values.mode, d.mode, parseMode);
+  const probs    = parseList(values['win-prob'], d.winProb, parseProbability);
+  const boosters = parseList(values.booster, d.booster, parseChoice('booster', BOOSTER_CHOICES));
+  const stakes   = parseList(values.stake, BET_AMOUNT, parseStake);
+  const pickupRules = parseList(values.pickups, 'player' as PickupRule, parseChoice('pickups', PICKUP_RULES));
+  const warriors = values.warrior === 'all'
+    ? COLORS
+    : parseList(values.warrior, d.playerColor, parseChoice('warrior', COLORS));
+  const layouts  = parseList(values.teams, 'ffa' as TeamLayout, parseChoice('teams', TEAM_LAYOUTS));
+  const arenas   = parseList(values.arena, 'square' as ArenaLayoutName, parseChoice('arena', ARENA_LAYOUT_NAMES));
+  const strategies = parseList(values.strategy, 'fixed' as StrategyName, parseChoice('strategy', STRATEGIES));
+  const adaptive = values['rtp-band'] !== undefined ? parseRtpBand(values['rtp-band']) : undefined;
+  const suddenDeath = parseSuddenDeath(values['sudden-death'], values['max-duration']);
+
+  const confidence = values.confidence ?? '0.95';
+  const z = Z_SCORES[confidence];
+  if (z === undefined) {
+    throw new Error(`--confidence expects one of ${Object.keys(Z_SCORES).join(', ')}, got "${confidence}"`);
+  }
+  const format = parseChoice('format', FORMATS)(values.format ?? 'table');
+
+  for (const teams of layouts) {
+    const size = teamLayoutSize(teams);
+    const bad = modes.find(m => size !== null && m !== size);
+    if (bad !== undefined) throw new Error(`--teams ${teams} needs --mode ${size}, got ${bad}`);
+  }
+
+  const grid: SimConfig[] = [];
+  for (const mode of modes) {
+    for (const teams of layouts) {
+      for (const arena of arenas) {
+        for (const winProb of probs) {
+          for (const pickups of pickupRules) {
+            for (const booster of boosters) {
+              for (const stake of stakes) {
+                for (const playerColor of warriors) {
+                  for (const strategy of strategies) {
+                    grid.push({ rounds, mode, teams, arena, winProb, booster, stake, pickups, playerColor, seedBase, strategy, adaptive, suddenDeath });
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return { grid, z, format, out: values.out ?? null, workers, sideBets: values['side-bets'] ?? false };
+}
+
+// ── Formatting ──────────────────────────────────────────────────────────────
+
+const pct = (x: number): string => (x * 100).toFixed(2);
+
+/**
+ * Booster value per FUN against the row with the same configuration and
+ * no booster, or null when that row wasn't simulated.
+ */
+function valueOf(r: SimSummary, results: SimSummary[]): number | null {
+  if (r.config.booster === 'none') return null;
+  const key = JSON.stringify({ ...r.config, booster: 'none' });
+  const baseline = results.find(b => JSON.stringify(b.config) === key);
+  return baseline ? boosterValue(r, baseline) : null;
+}
+
+export function formatTable(results: SimSummary[]): string {
+  const header = ['Mode', 'Stake', 'Arena', 'Warrior', 'Archetype', 'Booster', 'Pickups', 'Grab P/A/E %', 'Value/FUN', 'Strategy', 'WinProb', 'Rounds', 'Win %', 'Win % CI', 'Avg Profit', 'RTP %', 'RTP % CI', 'Dur p50/p90/p99 s', 'Max s', 'Time limit', 'Timeouts'];
+  const rows = results.map(r => [
+    modeLabel(r.config.mode, r.config.teams),
+    String(r.config.stake ?? BET_AMOUNT),
+    r.config.arena ?? 'square',
+    r.config.playerColor,
+    ARCHETYPES[r.config.playerColor].name,
+    r.config.booster,
+    r.config.pickups ?? 'player',
+    r.config.booster === 'none' ? '—' : [r.pickups.player, r.pickups.ally, r.pickups.enemy].map(x => (x * 100).toFixed(0)).join('/'),
+    valueOf(r, results)?.toFixed(3) ?? '—',
+    r.config.strategy ?? 'fixed',
+    pct(r.config.winProb),
+    String(r.rounds),
+    pct(r.winRate),
+    `${pct(r.winRateCi.low)}–${pct(r.winRateCi.high)}`,
+    r.avgProfit.toFixed(3),
+    pct(r.rtp),
+    `${pct(r.rtpCi.low)}–${pct(r.rtpCi.high)}`,
+    `${r.duration.p50}/${r.duration.p90}/${r.duration.p99}`,
+    r.duration.max.toFixed(1),
+    String(r.timeLimits),
+    String(r.timeouts),
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]): string => cells.map((c, i) => c.padStart(widths[i])).join('  ');
+  return [line(header), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n') + '\n';
+}
+
+export function formatCsv(results: SimSummary[]): string {
+  const header = [
+    'mode', 'teams', 'stake', 'arena', 'warrior', 'archetype', 'booster', 'pickups', 'strategy', 'win_prob', 'seed_base', 'rounds',
+    'win_rate', 'win_rate_low', 'win_rate_high', 'avg_profit',
+    'total_wagered', 'total_returned', 'rtp', 'rtp_low', 'rtp_high',
+    'timeouts', 'avg_ticks', 'time_limits',
+    'duration_mean_s', 'duration_p50_s', 'duration_p90_s', 'duration_p99_s', 'duration_max_s',
+    'pickups_player', 'pickups_ally', 'pickups_enemy', 'booster_value',
+  ];
+  const rows = results.map(r => [
+    r.config.mode, r.config.teams ?? 'ffa', r.config.stake ?? BET_AMOUNT, r.config.arena ?? 'square', r.config.playerColor, ARCHETYPES[r.config.playerColor].name, r.config.booster, r.config.pickups ?? 'player', r.config.strategy ?? 'fixed', r.config.winProb, r.config.seedBase, r.rounds,
+    r.winRate, r.winRateCi.low, r.winRateCi.high, r.avgProfit,
+    r.totalWagered, r.totalReturned, r.rtp, r.rtpCi.low, r.rtpCi.high,
+    r.timeouts, r.avgTicks, r.timeLimits,
+    r.duration.mean, r.duration.p50, r.duration.p90, r.duration.p99, r.duration.max,
+    r.pickups.player, r.pickups.ally, r.pickups.enemy, valueOf(r, results) ?? '',
+  ].join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+export function formatJson(results: SimSummary[]): string {
+  return JSON.stringify(results.map(r => ({ ...r, boosterValue: valueOf(r, results) })), null, 2) + '\n';
+}
+
+export function formatSideBetTable(results: SimSummary[]): string {
+  const header = ['Mode', 'Warrior', 'Booster', 'Pickups', 'Strategy', 'WinProb', 'Rounds', 'Bet', 'Pick', 'Pays ×', 'Hit %', 'Push %', 'RTP %', 'RTP % CI'];
+  const rows = results.flatMap(r => r.sideBets.map(b => [
+    modeLabel(r.config.mode, r.config.teams),
+    r.config.playerColor,
+    r.config.booster,
+    r.config.pickups ?? 'player',
+    r.config.strategy ?? 'fixed',
+    pct(r.config.winProb),
+    String(r.rounds),
+    b.bet,
+    b.pick,
+    String(b.multiplier),
+    pct(b.hitRate),
+    pct(b.pushRate),
+    pct(b.rtp),
+    `${pct(b.rtpCi.low)}–${pct(b.rtpCi.high)}`,
+  ]));
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]): string => cells.map((c, i) => c.padStart(widths[i])).join('  ');
+  return [line(header), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n') + '\n';
+}
+
+export function formatSideBetCsv(results: SimSummary[]): string {
+  const header = [
+    'mode', 'teams', 'warrior', 'booster', 'pickups', 'strategy', 'win_prob', 'seed_base', 'rounds',
+    'bet', 'pick', 'multiplier', 'hit_rate', 'push_rate', 'rtp', 'rtp_low', 'rtp_high',
+  ];
+  const rows = results.flatMap(r => r.sideBets.map(b => [
+    r.config.mode, r.config.teams ?? 'ffa', r.config.playerColor, r.config.booster, r.config.pickups ?? 'player', r.config.strategy ?? 'fixed', r.config.winProb, r.config.seedBase, r.rounds,
+    `"${b.bet}"`, `"${b.pick}"`, b.multiplier, b.hitRate, b.pushRate, b.rtp, b.rtpCi.low, b.rtpCi.high,
+  ].join(',')));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+export function formatSideBetJson(results: SimSummary[]): string {
+  return JSON.stringify(results.map(r => ({ config: r.config, rounds: r.rounds, sideBets: r.sideBets })), null, 2) + '\n';
+}
+
+export function formatResults(results: SimSummary[], format: OutputFormat, sideBets = false): string {
+  if (sideBets) {
+    switch (format) {
+      case 'table': return formatSideBetTable(results);
+      case 'json':  return formatSideBetJson(results);
+      case 'csv':   return formatSideBetCsv(results);
+    }
+  }
+  switch (format) {
+    case 'table': return formatTable(results);
+    case 'json':  return formatJson(results);
+    case 'csv':   return formatCsv(results);
+  }
+}
+
+// ── Entry point ─────────────────────────────────────────────────────────────
+
+async function main(argv: string[]): Promise<number> {
+  let opts: CliOptions | null;
+  try {
+    opts = parseCli(argv);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+  if (!opts) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Results don't depend on the worker count, so one worker just runs in-process.
+  const pool = opts.workers > 1 ? new SimulationPool(opts.workers) : null;
+  const results: SimSummary[] = [];
+  try {
+    for (const cfg of opts.grid) {
+      console.error(`Simulating ${cfg.rounds} rounds | Mode: ${modeLabel(cfg.mode, cfg.teams)} | Stake: ${cfg.stake} | Arena: ${cfg.arena} | WinProb: ${pct(cfg.winProb)}% | Booster: ${cfg.booster} (${cfg.pickups}) | Warrior: ${cfg.playerColor} | Strategy: ${cfg.strategy}`);
+      results.push(pool ? await pool.simulate(cfg, opts.z) : simulate(cfg, opts.z));
+    }
+  } finally {
+    await pool?.close();
+  }
+
+  if (opts.sideBets && results.every(r => r.sideBets.length === 0)) {
+    console.error('No side bets are offered in these configurations (classic free-for-all only)');
+  }
+  const output = formatResults(results, opts.format, opts.sideBets);
+  if (opts.out) {
+    writeFileSync(opts.out, output);
+    console.error(`Wrote ${results.length} result(s) to ${opts.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (err) => { console.error(err); process.exitCode = 1; },
+);
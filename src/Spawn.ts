@@ -0,0 +1,88 @@
+import { Arena } from './Arena';
+import type { Rng } from './Rng';
+
+export interface SpawnPoint {
+  x: number;
+  y: number;
+}
+
+/** Rejection-sampling attempts per point before the field counts as crowded. */
+const MAX_ATTEMPTS = 1000;
+
+/**
+ * Pick `count` centres inside `arena` (kept `margin` from the walls and
+ * obstacles) that are at least `minGap` apart.
+ *
+ * Random rejection sampling is tried first. If any point can't be placed,
+ * the field is too crowded for it and every point is instead taken from a
+ * shuffled hexagonal lattice with spacing `minGap`, shrunk down to
+ * `minSpacing` if that is what it takes to fit. The lattice keeps only
+ * `minSpacing / 2` from walls and obstacles, so a body may touch them but
+ * never overlap. Throws if even that can't fit `count` points — never
+ * silently overlaps.
+ */
+export function placeSpawns(
+  count: number,
+  arena: Arena,
+  rng: Rng,
+  margin: number,
+  minGap: number,
+  minSpacing = minGap,
+): SpawnPoint[] {
+  const points: SpawnPoint[] = [];
+  const isFree = (p: SpawnPoint): boolean =>
+    arena.fits(p.x, p.y, margin) && !points.some(q => Math.hypot(q.x - p.x, q.y - p.y) < minGap);
+
+  for (let i = 0; i < count; i++) {
+    let attempts = 0;
+    let p: SpawnPoint;
+    do {
+      p = {
+        x: rng.float(arena.left + margin, arena.right - margin),
+        y: rng.float(arena.top  + margin, arena.bottom - margin),
+      };
+      attempts++;
+    } while (attempts < MAX_ATTEMPTS && !isFree(p));
+
+    if (!isFree(p)) {
+      return latticeSpawns(count, arena, rng, minGap, minSpacing);
+    }
+    points.push(p);
+  }
+  return points;
+}
+
+function latticeSpawns(
+  count: number,
+  arena: Arena,
+  rng: Rng,
+  minGap: number,
+  minSpacing: number,
+): SpawnPoint[] {
+  const margin = minSpacing / 2;
+  for (let spacing = minGap; spacing >= minSpacing - 1e-9; spacing *= 0.95) {
+    const sites = hexLattice(arena, margin, spacing).filter(p => arena.fits(p.x, p.y, margin));
+    if (sites.length < count) continue;
+
+    // Fisher–Yates, so who ends up next to whom is still random
+    for (let i = sites.length - 1; i > 0; i--) {
+      const j = rng.int(0, i);
+      [sites[i], sites[j]] = [sites[j], sites[i]];
+    }
+    return sites.slice(0, count);
+  }
+  throw new Error(`Arena cannot fit ${count} spawn points ${minSpacing.toFixed(1)}px apart`);
+}
+
+function hexLattice(arena: Arena, margin: number, spacing: number): SpawnPoint[] {
+  const sites: SpawnPoint[] = [];
+  const rowH = spacing * Math.sqrt(3) / 2;
+  const left = arena.left + margin;
+  const right = arena.right - margin;
+  for (let row = 0, y = arena.top + margin; y <= arena.bottom - margin; row++, y += rowH) {
+    for (let x = left + (row % 2 ? spacing / 2 : 0); x <= right; x += spacing) {
+      sites.push({ x, y });
+    }
+  }
+  return sites;
+}
@@ -0,0 +1,46 @@
+/**
+ * Sudden death: after `startMs` of round time the playable area shrinks
+ * towards the arena centre and contact damage ramps up. If the round is
+ * still undecided at `maxDurationMs` it is settled on remaining HP, so no
+ * round outlasts that bound.
+ */
+export interface SuddenDeathConfig {
+  /** Round time at which the phase begins. */
+  startMs: number;
+  /** Time the boundary takes to shrink from full size to `minScale`; 0 disables shrinking. */
+  shrinkMs: number;
+  /** Final boundary size as a share of the arena's. */
+  minScale: number;
+  /** Extra damage multiplier per second of sudden death; 0 disables escalation. */
+  damageRampPerSec: number;
+  /** Hard round length; the round is decided on HP when it is reached. */
+  maxDurationMs: number;
+}
+
+export const DEFAULT_SUDDEN_DEATH: SuddenDeathConfig = {
+  startMs: 45_000,
+  shrinkMs: 30_000,
+  minScale: 0.35,
+  damageRampPerSec: 0.1,
+  maxDurationMs: 90_000,
+};
+
+export interface SuddenDeathState {
+  active: boolean;
+  /** Boundary size as a share of the arena's, 1 outside sudden death. */
+  scale: number;
+  /** Multiplier on every landed hit, 1 outside sudden death. */
+  damageScale: number;
+}
+
+/** Phase state at a point on the round clock. */
+export function suddenDeathAt(cfg: SuddenDeathConfig, timeMs: number): SuddenDeathState {
+  const elapsed = timeMs - cfg.startMs;
+  if (elapsed < 0) return { active: false, scale: 1, damageScale: 1 };
+  const shrink = cfg.shrinkMs > 0 ? Math.min(1, elapsed / cfg.shrinkMs) : 0;
+  return {
+    active: true,
+    scale: 1 - (1 - cfg.minScale) * shrink,
+    damageScale: 1 + cfg.damageRampPerSec * elapsed / 1000,
+  };
+}
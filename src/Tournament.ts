@@ -0,0 +1,140 @@
+import { Economy, BET_AMOUNT, TournamentSettlement } from './Economy';
+import { carryEffects } from './Boosters';
+import {
+  RoundEngine, PlayerCarry, TeamLayout, isValidMode, modeLabel, teamLayoutSize,
+} from './RoundEngine';
+
+/** What the player keeps from one stage to the next. */
+export type CarryOver = 'none' | 'hp' | 'boosters' | 'both';
+
+export interface TournamentStage {
+  /** Warriors in the stage's round (player included). */
+  mode: number;
+  teams?: TeamLayout;
+  /** Prize for clearing this stage, as a multiple of the buy-in. */
+  multiplier: number;
+}
+
+export interface TournamentConfig {
+  buyIn: number;
+  /** Fought in order; each one's multiplier must beat the one before. */
+  stages: TournamentStage[];
+  carryOver: CarryOver;
+}
+
+/**
+ * 1vs1 → 1vs2 → 1vs3. At the default fixed 80% strategy the stages are won
+ * about 37%, 27% and 22% of the time, so cashing out after any of them
+ * returns roughly 90% of the buy-in.
+ */
+export const DEFAULT_TOURNAMENT: TournamentConfig = {
+  buyIn: BET_AMOUNT * 3,
+  stages: [
+    { mode: 2, multiplier: 2.5 },
+    { mode: 3, multiplier: 9 },
+    { mode: 4, multiplier: 42 },
+  ],
+  carryOver: 'none',
+};
+
+export type TournamentStatus = 'running' | 'won' | 'lost' | 'cashed_out';
+
+/** Prize in FUN for clearing stage `i` of a bracket. */
+export function stagePrize(cfg: TournamentConfig, i: number): number {
+  return Math.round(cfg.buyIn * cfg.stages[i].multiplier * 100) / 100;
+}
+
+/** Short label for a stage, e.g. "1vs2" or "2v2". */
+export function stageLabel(stage: TournamentStage): string {
+  return modeLabel(stage.mode, stage.teams);
+}
+
+/**
+ * A bracket of rounds bought into once. Each cleared stage raises the
+ * prize the player holds; between stages it can be cashed out, and a lost
+ * stage forfeits it. The Economy keeps the money side (buy-in, boosters,
+ * payout); this class only tracks the bracket and what carries over.
+ */
+export class Tournament {
+  readonly config: TournamentConfig;
+  /** Index of the stage being fought or up next; stages.length once all are cleared. */
+  stage = 0;
+  status: TournamentStatus = 'running';
+  /** What the player takes into the next stage, per the carry-over setting. */
+  carry: PlayerCarry | null = null;
+  /** Filled in when the tournament ends. */
+  settlement: TournamentSettlement | null = null;
+
+  constructor(config: TournamentConfig, private economy: Economy) {
+    if (config.stages.length === 0) throw new Error('A tournament needs at least one stage');
+    config.stages.forEach((s, i) => {
+      const teamSize = s.teams ? teamLayoutSize(s.teams) : null;
+      if (!isValidMode(s.mode) || (teamSize !== null && teamSize !== s.mode)) {
+        throw new Error(`Stage ${i + 1}: unsupported mode ${stageLabel(s)}`);
+      }
+      if (i > 0 && s.multiplier <= config.stages[i - 1].multiplier) {
+        throw new Error(`Stage ${i + 1}: payout must rise above stage ${i}'s`);
+      }
+    });
+    if (!economy.canEnterTournament(config.buyIn)) throw new Error('Cannot afford the tournament buy-in');
+
+    this.config = config;
+    economy.enterTournament(config.buyIn);
+  }
+
+  get running(): boolean {
+    return this.status === 'running';
+  }
+
+  get currentStage(): TournamentStage | null {
+    return this.running ? this.config.stages[this.stage] : null;
+  }
+
+  /** What cashing out pays right now: the prize of the last cleared stage. */
+  get prize(): number {
+    return this.stage > 0 ? stagePrize(this.config, this.stage - 1) : 0;
+  }
+
+  /** Cashing out needs a cleared stage and a running tournament. */
+  get canCashOut(): boolean {
+    return this.running && this.stage > 0;
+  }
+
+  /** Advance the bracket on a finished stage round. */
+  completeStage(round: RoundEngine): void {
+    if (!this.running || round.running) return;
+    if (round.outcome === 'lose') {
+      this.end('lost', 0);
+      return;
+    }
+    this.stage++;
+    if (this.stage === this.config.stages.length) {
+      this.end('won', this.prize);
+      return;
+    }
+    this.carry = this.carryFrom(round);
+  }
+
+  /** Take the current prize and leave. Returns false if there is nothing to cash out. */
+  cashOut(): boolean {
+    if (!this.canCashOut) return false;
+    this.end('cashed_out', this.prize);
+    return true;
+  }
+
+  private carryFrom(round: RoundEngine): PlayerCarry | null {
+    const c = this.config.carryOver;
+    if (c === 'none') return null;
+    const p = round.player;
+    return {
+      hp:      c === 'hp' || c === 'both' ? p.hp : undefined,
+      effects: c === 'boosters' || c === 'both' ? carryEffects(p, round.timeMs) : undefined,
+    };
+  }
+
+  private end(status: TournamentStatus, payout: number): void {
+    this.status = status;
+    this.carry = null;
+    this.settlement = this.economy.settleTournament(payout, status);
+  }
+}
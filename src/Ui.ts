@@ -1,37 +1,99 @@
-import type { WarriorColor } from './Warrior';
-import type { BoosterType } from './Boosters';
-
-export type RoundStatus = 'ready' | 'running' | 'win' | 'lose';
+import { ARCHETYPES, WarriorColor } from './Warrior';
+import type { ArenaLayoutName } from './Arena';
+import { BoosterType, PickupRule, BOOSTERS, BOOSTER_TYPES } from './Boosters';
+import type { StrategyName } from './OutcomeController';
+import { STAKE_LADDER } from './Economy';
+import { isBattleRoyale, TeamLayout, WARRIOR_COLORS_LIST } from './RoundEngine';
+import type { CarryOver } from './Tournament';
+import type { SideBetOption, SideBetPick } from './SideBets';
+import type { Transaction, TransactionType } from './Ledger';
+import { COOL_OFF_HOURS, LimitSettings } from './Limits';
+import { AUTOPLAY_ROUNDS, AutoplayConfig } from './Autoplay';
+import { CurrencyConfig, DEFAULT_CURRENCY, formatAmount, formatMoney } from './Money';
+
+export type RoundStatus = 'ready' | 'running' | 'replay' | 'win' | 'lose';
+
+/** Ledger entries the history panel lists, newest first. */
+const HISTORY_ROWS = 50;
+
+const TRANSACTION_LABELS: Record<TransactionType, string> = {
+  deposit:           'Deposit',
+  bet:               'Bet',
+  booster:           'Booster',
+  damage:            'Hits',
+  win_payout:        'Win',
+  side_bet:          'Side bets',
+  side_bet_return:   'Side bets paid',
+  tournament_buy_in: 'Tournament buy-in',
+  tournament_payout: 'Tournament prize',
+  carried_forward:   'Carried forward',
+};
+
+export type BracketStageState = 'cleared' | 'current' | 'upcoming' | 'lost';
+
+/** What the bracket panel shows for a tournament. */
+export interface BracketView {
+  stages: { label: string; prize: number; state: BracketStageState }[];
+  /** Amount on offer for cashing out now, or null while that isn't possible. */
+  cashOut: number | null;
+}
 
 export interface UiState {
   selectedWarrior: number;
   selectedMode: number;
+  selectedTeams: TeamLayout;
   selectedBooster: BoosterType | 'none';
   winProbability: number;
+  strategy: StrategyName;
   seed: string;
 }
 
 export interface UiCallbacks {
   onWarriorSelect: (idx: number) => void;
-  onModeSelect: (mode: number) => void;
+  onModeSelect: (mode: number, teams: TeamLayout) => void;
+  onStakeChange: (stake: number) => void;
+  onArenaSelect: (layout: ArenaLayoutName) => void;
+  onPickupRuleChange: (rule: PickupRule) => void;
   onBoosterSelect: (b: BoosterType | 'none') => void;
   onWinProbChange: (p: number) => void;
+  onStrategyChange: (s: StrategyName) => void;
   onSeedChange: (seed: string) => void;
   onStart: () => void;
   onSpeedupToggle: () => void;
   onMidRoundBoosterBuy: (b: BoosterType) => void;
+  onReplayLast: () => void;
+  onReplaySave: () => void;
+  /** Raw text of a recording file chosen by the user. */
+  onReplayLoad: (json: string) => void;
+  onCarryOverChange: (c: CarryOver) => void;
+  onTournamentEnter: () => void;
+  onTournamentCashOut: () => void;
+  /** Every side bet currently picked, at most one per option. */
+  onSideBetsChange: (picks: SideBetPick[]) => void;
+  onHistoryExport: (format: 'csv' | 'json') => void;
+  onLimitsChange: (settings: LimitSettings) => void;
+  onCoolOff: (hours: number) => void;
+  /** The reality check was dismissed, with the player asking for a break or not. */
+  onRealityCheckClose: (takeBreak: boolean) => void;
+  onAutoplayStart: (config: AutoplayConfig) => void;
+  /** The stop button or any key while autoplay runs. */
+  onAutoplayStop: () => void;
 }
 
 export class Ui {
   private state: UiState = {
     selectedWarrior: 0,
     selectedMode: 4,
+    selectedTeams: 'ffa',
     selectedBooster: 'none',
     winProbability: 0.8,
+    strategy: 'fixed',
     seed: '',
   };
 
   private callbacks!: UiCallbacks;
+  /** What every amount on screen is formatted by. */
+  private currency: CurrencyConfig = DEFAULT_CURRENCY;
   private isRunning = false;
 
   // DOM refs
@@ -45,14 +107,48 @@ export class Ui {
   private boosterSectionLabel!: HTMLElement;
   private boostersBoughtSection!: HTMLElement;
   private boostersBoughtEl!: HTMLElement;
+  private boosterPickupEl!: HTMLElement;
   private popupEl!: HTMLElement;
   private popupTitle!: HTMLElement;
   private popupMsg!: HTMLElement;
   private popupBtn!: HTMLButtonElement;
   private popupAutoCloseTimer: ReturnType<typeof setTimeout> | null = null;
-
-  init(callbacks: UiCallbacks): void {
+  private replayLastBtn!: HTMLButtonElement;
+  private replaySaveBtn!: HTMLButtonElement;
+  private replayLoadBtn!: HTMLButtonElement;
+  private hasRecording = false;
+  private tournamentEnterBtn!: HTMLButtonElement;
+  private tournamentCashOutBtn!: HTMLButtonElement;
+  private bracketEl!: HTMLElement;
+  private stakeSelect!: HTMLSelectElement;
+  private betEl!: HTMLElement;
+  private paytableEl!: HTMLElement;
+  private sideBetsEl!: HTMLElement;
+  private sideBetRow!: HTMLElement;
+  private sideBetResultEl!: HTMLElement;
+  private sideBetOptions: SideBetOption[] = [];
+  private historyEl!: HTMLElement;
+  private lossLimitInput!: HTMLInputElement;
+  private wagerLimitInput!: HTMLInputElement;
+  private timeLimitInput!: HTMLInputElement;
+  private realityCheckSelect!: HTMLSelectElement;
+  private coolOffSelect!: HTMLSelectElement;
+  private limitsTextEl!: HTMLElement;
+  private limitNoticeEl!: HTMLElement;
+  private realityCheckEl!: HTMLElement;
+  private realityCheckMsg!: HTMLElement;
+  private autoplayBtn!: HTMLButtonElement;
+  private autoplayTextEl!: HTMLElement;
+  private serverTextEl!: HTMLElement;
+  private serverNoticeEl!: HTMLElement;
+  private autoplayActive = false;
+  /** While a bracket runs its stages dictate the mode. */
+  private tournamentActive = false;
+  private controlsEnabled = true;
+
+  init(callbacks: UiCallbacks, currency: CurrencyConfig = DEFAULT_CURRENCY): void {
     this.callbacks = callbacks;
+    this.currency = currency;
 
     this.balanceEl          = document.getElementById('stat-balance')!;
     this.profitEl           = document.getElementById('stat-profit')!;
@@ -64,19 +160,55 @@ export class Ui {
     this.boosterSectionLabel= document.getElementById('booster-section-label')!;
     this.boostersBoughtSection = document.getElementById('boosters-bought-section')!;
     this.boostersBoughtEl   = document.getElementById('boosters-bought-text')!;
+    this.boosterPickupEl    = document.getElementById('booster-pickup-text')!;
     this.popupEl            = document.getElementById('round-popup')!;
     this.popupTitle         = document.getElementById('popup-title')!;
     this.popupMsg           = document.getElementById('popup-msg')!;
     this.popupBtn           = document.getElementById('popup-btn') as HTMLButtonElement;
+    this.replayLastBtn      = document.getElementById('replay-last-btn') as HTMLButtonElement;
+    this.replaySaveBtn      = document.getElementById('replay-save-btn') as HTMLButtonElement;
+    this.replayLoadBtn      = document.getElementById('replay-load-btn') as HTMLButtonElement;
+    this.tournamentEnterBtn = document.getElementById('tournament-enter-btn') as HTMLButtonElement;
+    this.tournamentCashOutBtn = document.getElementById('tournament-cashout-btn') as HTMLButtonElement;
+    this.bracketEl          = document.getElementById('bracket')!;
+    this.stakeSelect        = document.getElementById('stake-select') as HTMLSelectElement;
+    this.betEl              = document.getElementById('stat-bet')!;
+    this.paytableEl         = document.getElementById('paytable-text')!;
+    this.sideBetsEl         = document.getElementById('side-bets')!;
+    this.sideBetRow         = document.getElementById('side-bet-row')!;
+    this.sideBetResultEl    = document.getElementById('stat-side-bets')!;
+    this.historyEl          = document.getElementById('history')!;
+    this.lossLimitInput     = document.getElementById('loss-limit-input') as HTMLInputElement;
+    this.wagerLimitInput    = document.getElementById('wager-limit-input') as HTMLInputElement;
+    this.timeLimitInput     = document.getElementById('time-limit-input') as HTMLInputElement;
+    this.realityCheckSelect = document.getElementById('reality-check-select') as HTMLSelectElement;
+    this.coolOffSelect      = document.getElementById('cool-off-select') as HTMLSelectElement;
+    this.limitsTextEl       = document.getElementById('limits-text')!;
+    this.limitNoticeEl      = document.getElementById('limit-notice')!;
+    this.realityCheckEl     = document.getElementById('reality-check')!;
+    this.realityCheckMsg    = document.getElementById('reality-check-msg')!;
+    this.autoplayBtn        = document.getElementById('autoplay-btn') as HTMLButtonElement;
+    this.autoplayTextEl     = document.getElementById('autoplay-text')!;
+    this.serverTextEl       = document.getElementById('server-text')!;
+    this.serverNoticeEl     = document.getElementById('server-notice')!;
 
     this.setupWarriorButtons();
     this.setupModeButtons();
+    this.setupStake();
     this.setupBoosterButtons();
+    this.setupPickupRule();
     this.setupWinProb();
+    this.setupStrategy();
+    this.setupArena();
     this.setupSeed();
     this.setupStartButton();
     this.setupSpeedupButton();
     this.setupPopupButton();
+    this.setupReplayButtons();
+    this.setupTournament();
+    this.setupHistory();
+    this.setupLimits();
+    this.setupAutoplay();
     this.setupKeyboard();
 
     this.selectWarrior(0);
@@ -87,6 +219,13 @@ export class Ui {
   private setupWarriorButtons(): void {
     document.getElementById('warrior-btns')!
       .querySelectorAll<HTMLButtonElement>('[data-warrior]').forEach(btn => {
+        const s = ARCHETYPES[WARRIOR_COLORS_LIST[parseInt(btn.dataset.warrior!)]];
+        const stats = document.createElement('span');
+        stats.className = 'warrior-stats';
+        stats.textContent = `HP ${s.maxHp} · SPD ×${s.speedMul.toFixed(2)} · DMG ${s.damage}`;
+        btn.appendChild(stats);
+        btn.title = `${s.name}: reach ${s.weaponReach.toFixed(1)}px, hitbox ${s.weaponRadius}px, cooldown ${s.cooldownMs}ms`;
+
         btn.addEventListener('click', () => {
           const idx = parseInt(btn.dataset.warrior!);
           this.selectWarrior(idx);
@@ -96,18 +235,54 @@ export class Ui {
   }
 
   private setupModeButtons(): void {
+    const brSize = document.getElementById('br-size-select') as HTMLSelectElement;
+    const pick = (mode: number, teams: TeamLayout = 'ffa'): void => {
+      this.selectMode(mode, teams);
+      this.callbacks.onModeSelect(mode, teams);
+    };
     document.getElementById('mode-btns')!
       .querySelectorAll<HTMLButtonElement>('[data-mode]').forEach(btn => {
         btn.addEventListener('click', () => {
-          const mode = parseInt(btn.dataset.mode!);
-          this.selectMode(mode);
-          this.callbacks.onModeSelect(mode);
+          // The battle royale button takes its field size from the select
+          if (btn.dataset.mode === 'br') pick(parseInt(brSize.value));
+          else pick(parseInt(btn.dataset.mode!), (btn.dataset.teams ?? 'ffa') as TeamLayout);
         });
       });
+    brSize.addEventListener('change', () => pick(parseInt(brSize.value)));
+  }
+
+  private setupStake(): void {
+    for (const stake of STAKE_LADDER) this.stakeSelect.add(new Option(`${stake} ${this.currency.code}`, String(stake)));
+    this.stakeSelect.addEventListener('change', () => this.callbacks.onStakeChange(Number(this.stakeSelect.value)));
+  }
+
+  selectStake(stake: number): void {
+    this.stakeSelect.value = String(stake);
+    this.betEl.textContent = this.money(stake);
+  }
+
+  /** One-line summary of what the selected mode and stake pay. */
+  setPaytableText(text: string): void {
+    this.paytableEl.textContent = text;
   }
 
   private setupBoosterButtons(): void {
-    document.getElementById('booster-btns')!
+    const group = document.getElementById('booster-btns')!;
+    for (const type of BOOSTER_TYPES) {
+      const def = BOOSTERS[type];
+      const btn = document.createElement('button');
+      btn.className = 'btn danger';
+      btn.dataset.booster = type;
+      btn.textContent = `${def.icon} ${def.name}`;
+      const cost = document.createElement('span');
+      cost.className = 'booster-cost';
+      cost.textContent = `${def.cost} ${this.currency.code}`;
+      btn.appendChild(cost);
+      btn.title = def.description;
+      group.appendChild(btn);
+    }
+
+    group
       .querySelectorAll<HTMLButtonElement>('[data-booster]').forEach(btn => {
         btn.addEventListener('click', () => {
           const b = btn.dataset.booster as BoosterType | 'none';
@@ -131,6 +306,36 @@ export class Ui {
     });
   }
 
+  private setupArena(): void {
+    const sel = document.getElementById('arena-select') as HTMLSelectElement;
+    sel.addEventListener('change', () => {
+      this.callbacks.onArenaSelect(sel.value as ArenaLayoutName);
+    });
+  }
+
+  selectArena(layout: ArenaLayoutName): void {
+    (document.getElementById('arena-select') as HTMLSelectElement).value = layout;
+  }
+
+  private setupPickupRule(): void {
+    const sel = document.getElementById('pickup-select') as HTMLSelectElement;
+    sel.addEventListener('change', () => {
+      this.callbacks.onPickupRuleChange(sel.value as PickupRule);
+    });
+  }
+
+  selectPickupRule(rule: PickupRule): void {
+    (document.getElementById('pickup-select') as HTMLSelectElement).value = rule;
+  }
+
+  private setupStrategy(): void {
+    const sel = document.getElementById('strategy-select') as HTMLSelectElement;
+    sel.addEventListener('change', () => {
+      this.state.strategy = sel.value as StrategyName;
+      this.callbacks.onStrategyChange(this.state.strategy);
+    });
+  }
+
   private setupSeed(): void {
     const inp = document.getElementById('seed-input') as HTMLInputElement;
     inp.addEventListener('input', () => {
@@ -154,10 +359,158 @@ export class Ui {
     });
   }
 
+  private setupReplayButtons(): void {
+    const fileInp = document.getElementById('replay-file') as HTMLInputElement;
+    this.replayLastBtn.addEventListener('click', () => this.callbacks.onReplayLast());
+    this.replaySaveBtn.addEventListener('click', () => this.callbacks.onReplaySave());
+    this.replayLoadBtn.addEventListener('click', () => fileInp.click());
+    fileInp.addEventListener('change', () => {
+      const file = fileInp.files?.[0];
+      fileInp.value = '';
+      if (!file) return;
+      file.text().then(text => this.callbacks.onReplayLoad(text));
+    });
+  }
+
+  private setupTournament(): void {
+    const sel = document.getElementById('carry-select') as HTMLSelectElement;
+    sel.addEventListener('change', () => this.callbacks.onCarryOverChange(sel.value as CarryOver));
+    this.tournamentEnterBtn.addEventListener('click', () => this.callbacks.onTournamentEnter());
+    this.tournamentCashOutBtn.addEventListener('click', () => this.callbacks.onTournamentCashOut());
+  }
+
+  private setupHistory(): void {
+    document.getElementById('history-csv-btn')!.addEventListener('click', () => this.callbacks.onHistoryExport('csv'));
+    document.getElementById('history-json-btn')!.addEventListener('click', () => this.callbacks.onHistoryExport('json'));
+  }
+
+  private setupLimits(): void {
+    const limit = (inp: HTMLInputElement): number | null => (inp.value === '' || !(Number(inp.value) > 0) ? null : Number(inp.value));
+    const changed = (): void => this.callbacks.onLimitsChange({
+      lossLimit:       limit(this.lossLimitInput),
+      wagerLimit:      limit(this.wagerLimitInput),
+      timeLimitMin:    limit(this.timeLimitInput),
+      realityCheckMin: this.realityCheckSelect.value === '' ? null : Number(this.realityCheckSelect.value),
+    });
+    [this.lossLimitInput, this.wagerLimitInput, this.timeLimitInput, this.realityCheckSelect]
+      .forEach(el => el.addEventListener('change', changed));
+
+    for (const h of COOL_OFF_HOURS) {
+      this.coolOffSelect.add(new Option(h < 24 ? `${h} hour` : `${h / 24} day${h > 24 ? 's' : ''}`, String(h)));
+    }
+    document.getElementById('cool-off-btn')!.addEventListener('click', () => {
+      const label = this.coolOffSelect.selectedOptions[0]?.text ?? '';
+      if (window.confirm(`Lock play for ${label}? It can't be undone.`)) this.callbacks.onCoolOff(this.selectedCoolOffHours);
+    });
+
+    document.getElementById('reality-continue-btn')!.addEventListener('click', () => {
+      this.hideRealityCheck();
+      this.callbacks.onRealityCheckClose(false);
+    });
+    document.getElementById('reality-cooloff-btn')!.addEventListener('click', () => {
+      this.hideRealityCheck();
+      this.callbacks.onRealityCheckClose(true);
+    });
+  }
+
+  /** Cool-off length picked in the Limits section, in hours. */
+  get selectedCoolOffHours(): number {
+    return Number(this.coolOffSelect.value);
+  }
+
+  /** Show the limits in force; an empty field is no limit. */
+  setLimits(settings: LimitSettings): void {
+    this.lossLimitInput.value  = settings.lossLimit?.toString() ?? '';
+    this.wagerLimitInput.value = settings.wagerLimit?.toString() ?? '';
+    this.timeLimitInput.value  = settings.timeLimitMin?.toString() ?? '';
+    this.realityCheckSelect.value = settings.realityCheckMin?.toString() ?? '';
+  }
+
+  /** Session summary under the limits. */
+  setLimitsText(text: string): void {
+    if (this.limitsTextEl.textContent !== text) this.limitsTextEl.textContent = text;
+  }
+
+  /** Why the last stake was refused; null clears it. */
+  setLimitNotice(text: string | null): void {
+    this.limitNoticeEl.textContent = text ?? '';
+  }
+
+  /** `html` is trusted markup built by the game. */
+  showRealityCheck(html: string): void {
+    this.realityCheckMsg.innerHTML = html;
+    this.realityCheckEl.style.display = 'flex';
+  }
+
+  hideRealityCheck(): void {
+    this.realityCheckEl.style.display = 'none';
+  }
+
+  get isRealityCheckVisible(): boolean {
+    return this.realityCheckEl.style.display === 'flex';
+  }
+
+  private setupAutoplay(): void {
+    const roundsSel = document.getElementById('autoplay-rounds-select') as HTMLSelectElement;
+    for (const n of AUTOPLAY_ROUNDS) roundsSel.add(new Option(String(n), String(n)));
+    const amount = (id: string): number | null => {
+      const inp = document.getElementById(id) as HTMLInputElement;
+      return inp.value === '' || !(Number(inp.value) >= 0) ? null : Number(inp.value);
+    };
+    this.autoplayBtn.addEventListener('click', () => {
+      if (this.autoplayActive) {
+        this.callbacks.onAutoplayStop();
+        return;
+      }
+      this.callbacks.onAutoplayStart({
+        rounds:       Number(roundsSel.value),
+        lossLimit:    amount('autoplay-loss-input'),
+        singleWin:    amount('autoplay-win-input'),
+        balanceFloor: amount('autoplay-floor-input'),
+      });
+    });
+  }
+
+  /** Flip the autoplay button to stop and lock its settings while a run goes on. */
+  setAutoplayActive(active: boolean): void {
+    this.autoplayActive = active;
+    this.autoplayBtn.textContent = active ? '■ Stop Autoplay' : '🔁 Autoplay';
+    this.autoplayBtn.classList.toggle('selected', active);
+    ['autoplay-rounds-select', 'autoplay-loss-input', 'autoplay-win-input', 'autoplay-floor-input']
+      .forEach(id => ((document.getElementById(id) as HTMLInputElement | HTMLSelectElement).disabled = active));
+  }
+
+  /** Live counter of the autoplay run. */
+  setAutoplayText(text: string): void {
+    this.autoplayTextEl.textContent = text;
+  }
+
+  /**
+   * Switch to rounds played on a game server: say which, and hide what
+   * only local play has (tournaments, side bets, autoplay, the outcome and
+   * seed controls, the local history).
+   */
+  setServerMode(text: string): void {
+    this.serverTextEl.textContent = text;
+    document.querySelectorAll<HTMLElement>('[data-local-only]').forEach(el => (el.style.display = 'none'));
+  }
+
+  /** Last error from the game server or a replay, or null to clear it. */
+  setServerNotice(text: string | null): void {
+    this.serverNoticeEl.textContent = text ?? '';
+  }
+
   private setupKeyboard(): void {
     document.addEventListener('keydown', (e: KeyboardEvent) => {
+      // Any key stops autoplay, and does nothing else
+      if (this.autoplayActive) {
+        e.preventDefault();
+        this.callbacks.onAutoplayStop();
+        return;
+      }
       if (e.code === 'Space' && !e.repeat) {
         e.preventDefault();
+        if (this.isRealityCheckVisible) return;
         if (this.isPopupVisible()) {
           this.hidePopup();
           this.callbacks.onStart();
@@ -184,12 +537,20 @@ export class Ui {
       });
   }
 
-  selectMode(mode: number): void {
+  selectMode(mode: number, teams: TeamLayout = 'ffa'): void {
     this.state.selectedMode = mode;
+    this.state.selectedTeams = teams;
+    const br = isBattleRoyale(mode);
     document.getElementById('mode-btns')!
       .querySelectorAll<HTMLButtonElement>('[data-mode]').forEach(btn => {
-        btn.classList.toggle('selected', parseInt(btn.dataset.mode!) === mode);
+        const selected = btn.dataset.mode === 'br'
+          ? br
+          : parseInt(btn.dataset.mode!) === mode && (btn.dataset.teams ?? 'ffa') === teams;
+        btn.classList.toggle('selected', selected);
       });
+    const brSize = document.getElementById('br-size-select') as HTMLSelectElement;
+    brSize.style.display = br ? '' : 'none';
+    if (br) brSize.value = String(mode);
   }
 
   selectBooster(b: BoosterType | 'none'): void {
@@ -202,7 +563,7 @@ export class Ui {
 
   setStatus(status: RoundStatus): void {
     const labels: Record<RoundStatus, string> = {
-      ready: 'READY', running: 'RUNNING', win: '★ WIN ★', lose: '✗ LOSE',
+      ready: 'READY', running: 'RUNNING', replay: '⟲ REPLAY', win: '★ WIN ★', lose: '✗ LOSE',
     };
     this.statusBadge.textContent = labels[status];
     this.statusBadge.className = '';
@@ -215,15 +576,135 @@ export class Ui {
     this.startBtn.disabled = disabled;
   }
 
-  /** Disable/enable pre-round setup controls (warrior, mode, seed, win-prob). */
+  /** Disable/enable pre-round setup controls (warrior, mode, seed, win-prob, strategy). */
   setControlsEnabled(enabled: boolean): void {
-    ['warrior-btns', 'mode-btns'].forEach(id => {
-      document.getElementById(id)!
-        .querySelectorAll<HTMLButtonElement>('button')
-        .forEach(btn => (btn.disabled = !enabled));
-    });
+    this.controlsEnabled = enabled;
+    const modeEnabled = enabled && !this.tournamentActive;
+    document.getElementById('warrior-btns')!
+      .querySelectorAll<HTMLButtonElement>('button')
+      .forEach(btn => (btn.disabled = !enabled));
+    document.getElementById('mode-btns')!
+      .querySelectorAll<HTMLButtonElement>('button')
+      .forEach(btn => (btn.disabled = !modeEnabled));
     (document.getElementById('win-prob-select') as HTMLSelectElement).disabled = !enabled;
+    (document.getElementById('br-size-select') as HTMLSelectElement).disabled = !modeEnabled;
+    (document.getElementById('carry-select') as HTMLSelectElement).disabled = !modeEnabled;
+    this.stakeSelect.disabled = !modeEnabled;
+    this.sideBetsEl.querySelectorAll<HTMLSelectElement>('select').forEach(sel => (sel.disabled = !modeEnabled));
+    this.tournamentEnterBtn.disabled = !modeEnabled;
+    (document.getElementById('arena-select') as HTMLSelectElement).disabled = !enabled;
+    (document.getElementById('pickup-select') as HTMLSelectElement).disabled = !enabled;
+    (document.getElementById('strategy-select') as HTMLSelectElement).disabled = !enabled;
     (document.getElementById('seed-input') as HTMLInputElement).disabled = !enabled;
+    this.replayLastBtn.disabled = !enabled || !this.hasRecording;
+    this.replaySaveBtn.disabled = !enabled || !this.hasRecording;
+    this.replayLoadBtn.disabled = !enabled;
+  }
+
+  /** Lock the mode and tournament entry while a bracket is being played. */
+  setTournamentActive(active: boolean): void {
+    this.tournamentActive = active;
+    this.setControlsEnabled(this.controlsEnabled);
+  }
+
+  setTournamentBuyIn(buyIn: number): void {
+    this.tournamentEnterBtn.textContent = `🏆 Enter Tournament (${buyIn} ${this.currency.code})`;
+  }
+
+  /** Draw the bracket, or clear it with null. */
+  updateBracket(view: BracketView | null): void {
+    const marks: Record<BracketStageState, string> = { cleared: '✓', current: '▶', upcoming: '·', lost: '✗' };
+    this.bracketEl.replaceChildren(...(view?.stages ?? []).map((s, i) => {
+      const row = document.createElement('div');
+      row.className = `bracket-stage ${s.state}`;
+      row.textContent = `${marks[s.state]} Stage ${i + 1}: ${s.label}`;
+      const prize = document.createElement('span');
+      prize.textContent = this.money(s.prize);
+      row.appendChild(prize);
+      return row;
+    }));
+    const cashOut = view?.cashOut ?? null;
+    this.tournamentCashOutBtn.style.display = cashOut !== null ? '' : 'none';
+    this.tournamentCashOutBtn.textContent = `💰 Cash Out (${this.money(cashOut ?? 0)})`;
+  }
+
+  /** List the latest ledger entries, newest first. */
+  updateHistory(transactions: readonly Transaction[]): void {
+    this.historyEl.replaceChildren(...transactions.slice(-HISTORY_ROWS).reverse().map(tx => {
+      const row = document.createElement('div');
+      row.className = `history-row ${tx.amount >= 0 ? 'win' : 'lose'}`;
+      row.textContent = `${tx.round !== null ? `#${tx.round} ` : ''}${TRANSACTION_LABELS[tx.type]}`;
+      row.title = new Date(tx.time).toLocaleString();
+      const amount = document.createElement('span');
+      amount.textContent = formatAmount(tx.amount, this.currency, true);
+      row.appendChild(amount);
+      return row;
+    }));
+  }
+
+  /**
+   * One select per open side bet. A pick survives the refresh if the same
+   * choice is still on offer; the resulting picks are reported back.
+   */
+  setSideBetOptions(options: SideBetOption[]): void {
+    const kept = new Map(this.sideBetOptions.map((o, i) => {
+      const sel = this.sideBetsEl.querySelectorAll<HTMLSelectElement>('select')[i];
+      return [o.kind, sel && sel.value !== '' ? o.choices[Number(sel.value)].label : null] as const;
+    }));
+    this.sideBetOptions = options;
+
+    if (options.length === 0) {
+      const note = document.createElement('div');
+      note.className = 'side-bet-note';
+      note.textContent = 'Classic free-for-all rounds only';
+      this.sideBetsEl.replaceChildren(note);
+    } else {
+      this.sideBetsEl.replaceChildren(...options.map(o => {
+        const sel = document.createElement('select');
+        sel.title = o.label;
+        sel.add(new Option(`${o.label}: no bet`, ''));
+        o.choices.forEach((c, i) => sel.add(new Option(`${o.label}: ${c.label} ×${c.multiplier}`, String(i))));
+        const prev = o.choices.findIndex(c => c.label === kept.get(o.kind));
+        sel.value = prev >= 0 ? String(prev) : '';
+        sel.addEventListener('change', () => this.callbacks.onSideBetsChange(this.sideBetPicks()));
+        return sel;
+      }));
+    }
+    this.setControlsEnabled(this.controlsEnabled);
+    this.callbacks.onSideBetsChange(this.sideBetPicks());
+  }
+
+  private sideBetPicks(): SideBetPick[] {
+    const sels = this.sideBetsEl.querySelectorAll<HTMLSelectElement>('select');
+    return this.sideBetOptions.flatMap((o, i) =>
+      sels[i] && sels[i].value !== '' ? [o.choices[Number(sels[i].value)].pick] : []);
+  }
+
+  /** Side-bet stake and return for the finished round; null hides the row. */
+  showSideBetResult(result: { stake: number; returned: number } | null): void {
+    this.sideBetRow.style.display = result ? '' : 'none';
+    if (!result) return;
+    const net = result.returned - result.stake;
+    this.sideBetResultEl.textContent =
+      `${formatAmount(result.returned, this.currency)} / ${this.money(result.stake)}`;
+    this.sideBetResultEl.className = 'stat-value ' + (net >= 0 ? 'win' : 'lose');
+  }
+
+  /** Enable the replay/save buttons once a round has been recorded. */
+  setRecordingAvailable(available: boolean): void {
+    this.hasRecording = available;
+    this.replayLastBtn.disabled = !available;
+    this.replaySaveBtn.disabled = !available;
+  }
+
+  /** Offer text content to the user as a file download. */
+  downloadText(filename: string, text: string, mime = 'application/json'): void {
+    const url = URL.createObjectURL(new Blob([text], { type: mime }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
   }
 
   /**
@@ -235,8 +716,8 @@ export class Ui {
 
     // Booster section label changes meaning during round
     this.boosterSectionLabel.textContent = running
-      ? 'Buy Booster (+1 FUN)'
-      : 'Booster (+1 FUN)';
+      ? 'Buy Booster'
+      : 'Booster';
 
     // Speedup button: enabled only while running
     this.speedupBtn.disabled = !running;
@@ -255,7 +736,7 @@ export class Ui {
             btn.style.display = 'none';
           } else {
             btn.style.display = '';
-            btn.disabled = balance < 1 || pickupActive;
+            btn.disabled = balance < BOOSTERS[b].cost || pickupActive;
             btn.classList.remove('selected');
           }
         });
@@ -276,7 +757,7 @@ export class Ui {
     document.getElementById('booster-btns')!
       .querySelectorAll<HTMLButtonElement>('[data-booster]').forEach(btn => {
         const b = btn.dataset.booster as BoosterType | 'none';
-        if (b !== 'none') btn.disabled = balance < 1 || pickupActive;
+        if (b !== 'none') btn.disabled = balance < BOOSTERS[b].cost || pickupActive;
       });
   }
 
@@ -285,20 +766,24 @@ export class Ui {
     this.speedupBtn.classList.toggle('selected', active);
   }
 
+  private money(amount: number, signed = false): string {
+    return formatMoney(amount, this.currency, signed);
+  }
+
   updateBalance(balance: number): void {
-    this.balanceEl.textContent = `${balance.toFixed(2)} FUN`;
+    this.balanceEl.textContent = this.money(balance);
   }
 
   updateProfit(profit: number): void {
-    this.profitEl.textContent = `${profit >= 0 ? '+' : ''}${profit.toFixed(2)} FUN`;
+    this.profitEl.textContent = this.money(profit, true);
     this.profitEl.className = 'stat-value ' + (profit >= 0 ? 'positive' : 'negative');
   }
 
-  showFinalProfit(profit: number, win: boolean): void {
+  /** `winMultiplier` is the round's paytable multiplier, shown when it applied. */
+  showFinalProfit(profit: number, win: boolean, winMultiplier: number): void {
     this.finalProfitRow.style.display = '';
-    const sign = profit >= 0 ? '+' : '';
-    const multiplierLabel = (win && profit > 0) ? ' ×1.5' : '';
-    this.finalProfitEl.textContent = `${sign}${profit.toFixed(2)} FUN${multiplierLabel}`;
+    const multiplierLabel = (win && profit > 0) ? ` ×${winMultiplier}` : '';
+    this.finalProfitEl.textContent = `${this.money(profit, true)}${multiplierLabel}`;
     this.finalProfitEl.className = 'stat-value ' + (profit >= 0 ? 'win' : 'lose');
   }
 
@@ -312,13 +797,17 @@ export class Ui {
   }
 
   updateBoostersBought(counts: Record<BoosterType, number>): void {
-    const parts: string[] = [];
-    if (counts.burger > 0) parts.push(`🍔 Burger ×${counts.burger}`);
-    if (counts.glove  > 0) parts.push(`🥊 Glove ×${counts.glove}`);
-    if (counts.shield > 0) parts.push(`🛡️ Shield ×${counts.shield}`);
+    const parts = BOOSTER_TYPES
+      .filter(t => counts[t] > 0)
+      .map(t => `${BOOSTERS[t].icon} ${BOOSTERS[t].name} ×${counts[t]}`);
     this.boostersBoughtEl.textContent = parts.length > 0 ? parts.join('  ') : '—';
   }
 
+  /** Who grabbed the latest booster pickup this round; null clears the line. */
+  setLastPickup(text: string | null): void {
+    this.boosterPickupEl.textContent = text ?? '';
+  }
+
   showRoundEndPopup(win: boolean, finalProfit: number, betAmount: number): void {
     if (win) {
       const winAmount = Math.max(0, finalProfit);
@@ -326,15 +815,14 @@ export class Ui {
       this.popupTitle.textContent = '★ YOU WIN! ★';
       this.popupTitle.className = 'popup-title win';
       this.popupMsg.innerHTML =
-        `Congrats! You have won <strong>${winAmount.toFixed(2)} FUNS</strong>` +
+        `Congrats! You have won <strong>${this.money(winAmount)}</strong>` +
         ` and this is <strong>${y.toFixed(2)}x</strong> from your Bet`;
       this.popupBtn.textContent = '▶ Play Again';
     } else {
       this.popupTitle.textContent = 'Oh No, You Lose';
       this.popupTitle.className = 'popup-title lose';
-      const sign = finalProfit >= 0 ? '+' : '';
       this.popupMsg.innerHTML =
-        `Round profit: <strong>${sign}${finalProfit.toFixed(2)} FUN</strong>`;
+        `Round profit: <strong>${this.money(finalProfit, true)}</strong>`;
       this.popupBtn.textContent = '▶ Play Again';
     }
 
@@ -348,6 +836,18 @@ export class Ui {
     }, 2000);
   }
 
+  /** Stage or tournament result; `html` is trusted markup built by the game. */
+  showTournamentPopup(title: string, html: string, win: boolean, button: string): void {
+    this.popupTitle.textContent = title;
+    this.popupTitle.className = `popup-title ${win ? 'win' : 'lose'}`;
+    this.popupMsg.innerHTML = html;
+    this.popupBtn.textContent = button;
+    this.popupEl.style.display = 'flex';
+
+    if (this.popupAutoCloseTimer) clearTimeout(this.popupAutoCloseTimer);
+    this.popupAutoCloseTimer = setTimeout(() => this.hidePopup(), 2000);
+  }
+
   hidePopup(): void {
     if (this.popupAutoCloseTimer) {
       clearTimeout(this.popupAutoCloseTimer);
@@ -1,9 +1,17 @@
+import type { ActiveEffect, BoosterType } from './Boosters';
+
 export type WarriorColor = 'red' | 'blue' | 'green' | 'yellow';
-export type BoosterEffect = 'none' | 'glove' | 'shield';
 
 export interface WarriorConfig {
   id: number;
-  color: WarriorColor;
+  /** Named colour of the four classic warriors; null for generated entrants. */
+  color: WarriorColor | null;
+  /** Body colour (0xRRGGBB) and weapon glyph as rendered. */
+  tint: number;
+  label: string;
+  /** Warriors sharing a team id are allies; the player is always on PLAYER_TEAM. */
+  team: number;
+  stats: ArchetypeStats;
   isPlayer: boolean;
   px: number;
   py: number;
@@ -12,7 +20,10 @@ export interface WarriorConfig {
   speed: number;
 }
 
+export const PLAYER_TEAM = 0;
+
 export const WARRIOR_RADIUS = 22;
+/** Sword baseline — the other archetypes are tuned around it. */
 export const WEAPON_RADIUS  = 8;
 export const WEAPON_OFFSET  = 0.8 * WARRIOR_RADIUS; // ~17.6 px from center
 
@@ -30,9 +41,64 @@ export const WARRIOR_LABELS: Record<WarriorColor, string> = {
   yellow: '🔪',
 };
 
+/** Combat stats behind each colour. */
+export interface ArchetypeStats {
+  name: string;
+  maxHp: number;
+  /** Multiplier on WARRIOR_SPEED. */
+  speedMul: number;
+  /** Distance of the weapon hitbox from the body centre. */
+  weaponReach: number;
+  weaponRadius: number;
+  /** Base weapon-on-body damage. */
+  damage: number;
+  /** Minimum time between two hits in a pair this warrior is part of. */
+  cooldownMs: number;
+}
+
+export const ARCHETYPES: Record<WarriorColor, ArchetypeStats> = {
+  // Balanced baseline: exactly the pre-archetype numbers
+  red:    { name: 'Sword',    maxHp: 100, speedMul: 1.00, weaponReach: WEAPON_OFFSET,         weaponRadius: WEAPON_RADIUS, damage: 25, cooldownMs: 120 },
+  // Slow and sturdy, heavy swings
+  blue:   { name: 'Axe',      maxHp: 105, speedMul: 0.90, weaponReach: 0.8 * WARRIOR_RADIUS,  weaponRadius: 8,             damage: 27, cooldownMs: 150 },
+  // Fast, short reach, quick light hits
+  green:  { name: 'Knuckles', maxHp: 100, speedMul: 1.10, weaponReach: 0.7 * WARRIOR_RADIUS,  weaponRadius: 10,            damage: 22, cooldownMs: 90  },
+  // Fragile and quick, a small precise blade
+  yellow: { name: 'Knife',    maxHp:  95, speedMul: 1.10, weaponReach: 0.9 * WARRIOR_RADIUS,  weaponRadius: 7,             damage: 25, cooldownMs: 100 },
+};
+
+const ARCHETYPE_CYCLE: WarriorColor[] = ['red', 'blue', 'green', 'yellow'];
+
+/** Archetype of the i-th warrior of a large field (i ≥ 4). */
+export function generatedArchetype(i: number): WarriorColor {
+  return ARCHETYPE_CYCLE[i % ARCHETYPE_CYCLE.length];
+}
+
+/** Golden-angle hue step, so consecutive entrants never share a colour. */
+const GOLDEN_ANGLE = 137.508;
+
+function hslToHex(h: number, s: number, l: number): number {
+  const k = (n: number): number => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number): number => Math.round(255 * (l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)))));
+  return (f(0) << 16) | (f(8) << 8) | f(4);
+}
+
+/** Tint and label for the i-th warrior of a large field (i ≥ 4); the label shows its archetype's weapon. */
+export function generatedAppearance(i: number): { tint: number; label: string } {
+  return {
+    tint: hslToHex((i * GOLDEN_ANGLE) % 360, 0.65, 0.55),
+    label: WARRIOR_LABELS[generatedArchetype(i)],
+  };
+}
+
 export class Warrior {
   id: number;
-  color: WarriorColor;
+  color: WarriorColor | null;
+  tint: number;
+  label: string;
+  team: number;
+  readonly stats: ArchetypeStats;
   isPlayer: boolean;
 
   px: number;
@@ -41,7 +107,8 @@ export class Warrior {
   vy: number;
   speed: number;
 
-  hp: number = 100;
+  hp: number;
+  readonly maxHp: number;
   alive: boolean = true;
 
   /**
@@ -54,7 +121,14 @@ export class Warrior {
   weaponX: number = 0;
   weaponY: number = 0;
 
-  boosterEffect: BoosterEffect = 'none';
+  /** Body and weapon positions at the start of the current step, for swept collision tests. */
+  prevPx: number;
+  prevPy: number;
+  prevWeaponX: number = 0;
+  prevWeaponY: number = 0;
+
+  /** Lasting booster effects, in pickup order; see BOOSTERS. */
+  effects: ActiveEffect[] = [];
   healPulse: boolean = false;
   healPulseTimer: number = 0;
 
@@ -64,9 +138,17 @@ export class Warrior {
   constructor(cfg: WarriorConfig) {
     this.id       = cfg.id;
     this.color    = cfg.color;
+    this.tint     = cfg.tint;
+    this.label    = cfg.label;
+    this.team     = cfg.team;
+    this.stats    = cfg.stats;
+    this.maxHp    = cfg.stats.maxHp;
+    this.hp       = this.maxHp;
     this.isPlayer = cfg.isPlayer;
     this.px       = cfg.px;
     this.py       = cfg.py;
+    this.prevPx   = cfg.px;
+    this.prevPy   = cfg.py;
     this.vx       = cfg.vx;
     this.vy       = cfg.vy;
     this.speed    = cfg.speed;
@@ -80,8 +162,8 @@ export class Warrior {
    * Must be called whenever px/py or rotationRad changes.
    */
   updateWeaponPos(): void {
-    this.weaponX = this.px + Math.cos(this.rotationRad) * WEAPON_OFFSET;
-    this.weaponY = this.py + Math.sin(this.rotationRad) * WEAPON_OFFSET;
+    this.weaponX = this.px + Math.cos(this.rotationRad) * this.stats.weaponReach;
+    this.weaponY = this.py + Math.sin(this.rotationRad) * this.stats.weaponReach;
   }
 
   normalise(): void {
@@ -100,7 +182,11 @@ export class Warrior {
     }
   }
 
+  hasEffect(type: BoosterType): boolean {
+    return this.effects.some(e => e.type === type);
+  }
+
   healHP(amount: number): void {
-    this.hp = Math.min(100, this.hp + amount);
+    this.hp = Math.min(this.maxHp, this.hp + amount);
   }
 }
@@ -1,7 +1,8 @@
 import { Application } from 'pixi.js';
 import { Game } from './Game';
+import { ServerClient } from './ServerClient';
 
-const CANVAS_SIZE = 540; // arena (500) + some padding
+const CANVAS_SIZE = 540; // arena (500) + ARENA_ORIGIN padding on each side
 
 async function main(): Promise<void> {
   const app = new Application();
@@ -31,7 +32,9 @@ async function main(): Promise<void> {
   resize();
   window.addEventListener('resize', resize);
 
-  const game = new Game(app);
+  // ?server=<url> has a game server (npm run serve) decide and settle the rounds
+  const serverUrl = new URLSearchParams(window.location.search).get('server');
+  const game = new Game(app, serverUrl ? new ServerClient(serverUrl) : null);
 
   app.ticker.maxFPS = 60;
   app.ticker.add((ticker) => {